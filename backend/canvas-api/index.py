@@ -6,6 +6,7 @@ Returns: HTTP response dict
 '''
 import json
 import os
+from datetime import datetime
 from typing import Dict, Any
 import psycopg2
 from psycopg2.extras import RealDictCursor
@@ -14,6 +15,11 @@ def get_db_connection():
     dsn = os.environ.get('DATABASE_URL')
     return psycopg2.connect(dsn, cursor_factory=RealDictCursor)
 
+def json_default(value: Any) -> Any:
+    if isinstance(value, datetime):
+        return value.isoformat()
+    raise TypeError(f'Object of type {type(value).__name__} is not JSON serializable')
+
 def handler(event: Dict[str, Any], context: Any) -> Dict[str, Any]:
     method: str = event.get('httpMethod', 'GET')
     
@@ -40,7 +46,7 @@ def handler(event: Dict[str, Any], context: Any) -> Dict[str, Any]:
             
             if project_id:
                 cur.execute(
-                    "SELECT * FROM canvas_objects WHERE project_id = %s ORDER BY created_at",
+                    "SELECT * FROM canvas_objects WHERE project_id = %s ORDER BY id",
                     (int(project_id),)
                 )
                 objects = cur.fetchall()
@@ -54,7 +60,7 @@ def handler(event: Dict[str, Any], context: Any) -> Dict[str, Any]:
                 return {
                     'statusCode': 200,
                     'headers': {'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*'},
-                    'body': json.dumps({'project': dict(project) if project else None, 'objects': [dict(o) for o in objects]}),
+                    'body': json.dumps({'project': dict(project) if project else None, 'objects': [dict(o) for o in objects]}, default=json_default),
                     'isBase64Encoded': False
                 }
             else:
@@ -63,7 +69,7 @@ def handler(event: Dict[str, Any], context: Any) -> Dict[str, Any]:
                 return {
                     'statusCode': 200,
                     'headers': {'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*'},
-                    'body': json.dumps({'projects': [dict(p) for p in projects]}),
+                    'body': json.dumps({'projects': [dict(p) for p in projects]}, default=json_default),
                     'isBase64Encoded': False
                 }
         
@@ -92,22 +98,115 @@ def handler(event: Dict[str, Any], context: Any) -> Dict[str, Any]:
             elif action == 'save_objects':
                 project_id = body_data.get('project_id')
                 objects = body_data.get('objects', [])
+                base_updated_at = body_data.get('base_updated_at')
+                schema_version = body_data.get('schema_version', 0)
+                
+                cur.execute(
+                    "SELECT updated_at FROM canvas_projects WHERE id = %s FOR UPDATE",
+                    (project_id,)
+                )
+                current = cur.fetchone()
+                if not current:
+                    return {
+                        'statusCode': 404,
+                        'headers': {'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*'},
+                        'body': json.dumps({'error': 'Project not found'}),
+                        'isBase64Encoded': False
+                    }
+                
+                # Clients that edited offline send the version they started from;
+                # refuse to overwrite changes they have not seen.
+                if base_updated_at and json_default(current['updated_at']) != base_updated_at:
+                    return {
+                        'statusCode': 409,
+                        'headers': {'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*'},
+                        'body': json.dumps({'error': 'Project was modified', 'updated_at': current['updated_at']}, default=json_default),
+                        'isBase64Encoded': False
+                    }
                 
                 cur.execute("DELETE FROM canvas_objects WHERE project_id = %s", (project_id,))
                 
                 for obj in objects:
                     cur.execute(
                         """INSERT INTO canvas_objects 
-                        (project_id, object_id, type, x, y, width, height, text, color) 
-                        VALUES (%s, %s, %s, %s, %s, %s, %s, %s, %s)""",
+                        (project_id, object_id, type, x, y, width, height, text, color, data) 
+                        VALUES (%s, %s, %s, %s, %s, %s, %s, %s, %s, %s)""",
                         (project_id, obj['id'], obj['type'], obj['x'], obj['y'], 
-                         obj.get('width'), obj.get('height'), obj.get('text'), obj['color'])
+                         obj.get('width'), obj.get('height'), obj.get('text'), obj['color'],
+                         json.dumps(obj))
                     )
                 
                 cur.execute(
-                    "UPDATE canvas_projects SET updated_at = CURRENT_TIMESTAMP WHERE id = %s",
+                    "UPDATE canvas_projects SET updated_at = CURRENT_TIMESTAMP, schema_version = %s WHERE id = %s RETURNING updated_at",
+                    (schema_version, project_id)
+                )
+                updated = cur.fetchone()
+                conn.commit()
+                
+                return {
+                    'statusCode': 200,
+                    'headers': {'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*'},
+                    'body': json.dumps({'success': True, 'updated_at': updated['updated_at'] if updated else None}, default=json_default),
+                    'isBase64Encoded': False
+                }
+            
+            elif action == 'rename_project':
+                project_id = body_data.get('project_id')
+                name = body_data.get('name', 'Untitled Project')
+                
+                cur.execute(
+                    "UPDATE canvas_projects SET name = %s, updated_at = CURRENT_TIMESTAMP WHERE id = %s RETURNING updated_at",
+                    (name, project_id)
+                )
+                updated = cur.fetchone()
+                conn.commit()
+                
+                return {
+                    'statusCode': 200,
+                    'headers': {'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*'},
+                    'body': json.dumps({'success': True, 'updated_at': updated['updated_at'] if updated else None}, default=json_default),
+                    'isBase64Encoded': False
+                }
+            
+            elif action == 'duplicate_project':
+                project_id = body_data.get('project_id')
+                
+                cur.execute(
+                    """INSERT INTO canvas_projects (name, description, schema_version)
+                    SELECT name || ' (copy)', description, schema_version FROM canvas_projects WHERE id = %s
+                    RETURNING id""",
                     (project_id,)
                 )
+                new_project = cur.fetchone()
+                if not new_project:
+                    return {
+                        'statusCode': 404,
+                        'headers': {'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*'},
+                        'body': json.dumps({'error': 'Project not found'}),
+                        'isBase64Encoded': False
+                    }
+                
+                cur.execute(
+                    """INSERT INTO canvas_objects
+                    (project_id, object_id, type, x, y, width, height, text, color, data)
+                    SELECT %s, object_id, type, x, y, width, height, text, color, data
+                    FROM canvas_objects WHERE project_id = %s ORDER BY id""",
+                    (new_project['id'], project_id)
+                )
+                conn.commit()
+                
+                return {
+                    'statusCode': 201,
+                    'headers': {'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*'},
+                    'body': json.dumps({'project_id': new_project['id']}),
+                    'isBase64Encoded': False
+                }
+            
+            elif action == 'delete_project':
+                project_id = body_data.get('project_id')
+                
+                cur.execute("DELETE FROM canvas_objects WHERE project_id = %s", (project_id,))
+                cur.execute("DELETE FROM canvas_projects WHERE id = %s", (project_id,))
                 conn.commit()
                 
                 return {
@@ -0,0 +1,14 @@
+ALTER TABLE canvas_objects ADD COLUMN IF NOT EXISTS data JSONB;
+
+UPDATE canvas_objects
+SET data = jsonb_strip_nulls(jsonb_build_object(
+    'id', object_id,
+    'type', type,
+    'x', x,
+    'y', y,
+    'width', width,
+    'height', height,
+    'text', text,
+    'color', color
+))
+WHERE data IS NULL;
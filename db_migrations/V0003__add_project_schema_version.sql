@@ -0,0 +1,2 @@
+-- Existing rows predate versioned board documents and are read as version 0.
+ALTER TABLE canvas_projects ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,104 @@
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { ZOrderCommand } from '@/lib/canvas/z-order';
+
+interface ArrangeMenuProps {
+  hasSelection: boolean;
+  onZOrder: (command: ZOrderCommand) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onToggleLock: () => void;
+  onToggleHidden: () => void;
+  onFlip: (direction: 'horizontal' | 'vertical') => void;
+  onUnlockAll: () => void;
+  onShowAll: () => void;
+}
+
+const ArrangeMenu = ({
+  hasSelection,
+  onZOrder,
+  onGroup,
+  onUngroup,
+  onToggleLock,
+  onToggleHidden,
+  onFlip,
+  onUnlockAll,
+  onShowAll,
+}: ArrangeMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="ghost" size="sm" className="gap-2">
+        <Icon name="BringToFront" size={16} />
+        Arrange
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-64">
+      <DropdownMenuItem disabled={!hasSelection} onClick={() => onZOrder('front')}>
+        Bring to front
+        <DropdownMenuShortcut>Ctrl+Shift+]</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuItem disabled={!hasSelection} onClick={() => onZOrder('forward')}>
+        Bring forward
+        <DropdownMenuShortcut>Ctrl+]</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuItem disabled={!hasSelection} onClick={() => onZOrder('backward')}>
+        Send backward
+        <DropdownMenuShortcut>Ctrl+[</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuItem disabled={!hasSelection} onClick={() => onZOrder('back')}>
+        Send to back
+        <DropdownMenuShortcut>Ctrl+Shift+[</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem disabled={!hasSelection} onClick={onGroup}>
+        Group
+        <DropdownMenuShortcut>Ctrl+G</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuItem disabled={!hasSelection} onClick={onUngroup}>
+        Ungroup
+        <DropdownMenuShortcut>Ctrl+Shift+G</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem disabled={!hasSelection} onClick={() => onFlip('horizontal')}>
+        <Icon name="FlipHorizontal2" size={14} className="mr-2" />
+        Flip horizontal
+        <DropdownMenuShortcut>Shift+H</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuItem disabled={!hasSelection} onClick={() => onFlip('vertical')}>
+        <Icon name="FlipVertical2" size={14} className="mr-2" />
+        Flip vertical
+        <DropdownMenuShortcut>Shift+V</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem disabled={!hasSelection} onClick={onToggleLock}>
+        <Icon name="Lock" size={14} className="mr-2" />
+        Lock / unlock
+        <DropdownMenuShortcut>Ctrl+Shift+L</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuItem disabled={!hasSelection} onClick={onToggleHidden}>
+        <Icon name="EyeOff" size={14} className="mr-2" />
+        Hide / show
+        <DropdownMenuShortcut>Ctrl+Shift+H</DropdownMenuShortcut>
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem onClick={onUnlockAll}>
+        <Icon name="LockOpen" size={14} className="mr-2" />
+        Unlock all
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={onShowAll}>
+        <Icon name="Eye" size={14} className="mr-2" />
+        Show all
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default ArrangeMenu;
@@ -0,0 +1,27 @@
+import { ARROWHEAD_SHAPES } from '@/lib/canvas/lines';
+import type { ArrowheadStyle } from '@/lib/canvas/types';
+
+interface ArrowheadMarkerProps {
+  id: string;
+  style: ArrowheadStyle;
+  color: string;
+}
+
+// Marker units are the line's stroke width, matching `ARROWHEAD_SHAPES`. The
+// same marker works at the start because it is oriented with
+// `auto-start-reverse`.
+const ArrowheadMarker = ({ id, style, color }: ArrowheadMarkerProps) => {
+  if (style === 'none') return null;
+  const head = ARROWHEAD_SHAPES[style];
+  return (
+    <marker id={id} markerWidth="10" markerHeight="10" refX={head.refX} refY="3" orient="auto-start-reverse" overflow="visible">
+      {head.open ? (
+        <path d={head.path} fill="none" stroke={color} strokeWidth={1} strokeLinecap="round" strokeLinejoin="round" />
+      ) : (
+        <path d={head.path} fill={color} />
+      )}
+    </marker>
+  );
+};
+
+export default ArrowheadMarker;
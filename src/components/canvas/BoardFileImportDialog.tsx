@@ -0,0 +1,129 @@
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { ParsedBoardFile } from '@/lib/canvas/board-file';
+import { getCombinedBounds, getObjectCenter } from '@/lib/canvas/objects';
+import { getLinePathData } from '@/lib/canvas/paths';
+import { resolveStyle } from '@/lib/canvas/style';
+import type { CanvasObject } from '@/lib/canvas/types';
+
+interface BoardFileImportDialogProps {
+  file: ParsedBoardFile | null;
+  onConfirm: (file: ParsedBoardFile) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_PADDING = 20;
+
+const PreviewShape = ({ obj }: { obj: CanvasObject }) => {
+  const width = obj.width ?? 0;
+  const height = obj.height ?? 0;
+  const style = resolveStyle(obj);
+  const paint = {
+    fill: style.fill,
+    stroke: style.stroke,
+    strokeWidth: style.strokeWidth,
+    strokeDasharray: style.dashArray,
+  };
+  switch (obj.type) {
+    case 'line':
+    case 'arrow':
+      return <path d={getLinePathData(obj)} {...paint} fill="none" />;
+    case 'pen':
+      return <polyline points={(obj.points ?? []).map((p) => `${p.x},${p.y}`).join(' ')} {...paint} fill="none" />;
+    case 'diamond':
+      return (
+        <polygon
+          points={`${obj.x + width / 2},${obj.y} ${obj.x + width},${obj.y + height / 2} ${obj.x + width / 2},${obj.y + height} ${obj.x},${obj.y + height / 2}`}
+          {...paint}
+        />
+      );
+    case 'triangle':
+      return <polygon points={`${obj.x + width / 2},${obj.y} ${obj.x + width},${obj.y + height} ${obj.x},${obj.y + height}`} {...paint} />;
+    case 'circle':
+      return <ellipse cx={obj.x + width / 2} cy={obj.y + height / 2} rx={width / 2} ry={height / 2} {...paint} />;
+    case 'text':
+      return <rect x={obj.x} y={obj.y} width={width} height={height} fill="none" stroke={obj.color} strokeDasharray="4 4" />;
+    default:
+      return <rect x={obj.x} y={obj.y} width={width} height={height} rx={style.cornerRadius} {...paint} />;
+  }
+};
+
+// A rough thumbnail so the user can recognise the board before replacing theirs.
+const BoardPreview = ({ objects }: { objects: CanvasObject[] }) => {
+  const bounds = getCombinedBounds(objects);
+  if (!bounds) {
+    return (
+      <div className="h-40 rounded border bg-muted flex items-center justify-center text-sm text-muted-foreground">
+        Empty board
+      </div>
+    );
+  }
+  const minX = bounds.minX - PREVIEW_PADDING;
+  const minY = bounds.minY - PREVIEW_PADDING;
+  const maxX = bounds.maxX + PREVIEW_PADDING;
+  const maxY = bounds.maxY + PREVIEW_PADDING;
+
+  return (
+    <svg
+      className="h-40 w-full rounded border bg-[#F8F9FA]"
+      viewBox={`${minX} ${minY} ${maxX - minX} ${maxY - minY}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {objects.map((obj) => {
+        const { x, y } = getObjectCenter(obj);
+        const transforms = [
+          obj.rotation && `rotate(${obj.rotation} ${x} ${y})`,
+          (obj.flipX || obj.flipY) && `translate(${x} ${y}) scale(${obj.flipX ? -1 : 1} ${obj.flipY ? -1 : 1}) translate(${-x} ${-y})`,
+        ].filter(Boolean);
+        return (
+          <g key={obj.id} transform={transforms.length > 0 ? transforms.join(' ') : undefined} opacity={resolveStyle(obj).opacity}>
+            <PreviewShape obj={obj} />
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const BoardFileImportDialog = ({ file, onConfirm, onCancel }: BoardFileImportDialogProps) => {
+  const name = file?.document.board.name ?? file?.fileName ?? '';
+  const objectCount = file?.document.objects.length ?? 0;
+  const templateCount = file?.templates.length ?? 0;
+  const quarantinedCount = file?.quarantined.length ?? 0;
+
+  return (
+    <AlertDialog open={file !== null} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Open "{name}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This replaces everything on the current board. You can undo the import afterwards.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {file && <BoardPreview objects={file.document.objects.filter((obj) => !obj.hidden)} />}
+        <ul className="text-sm text-muted-foreground space-y-1">
+          <li>{objectCount} object(s)</li>
+          {templateCount > 0 && <li>{templateCount} template(s) will be added to My Templates</li>}
+          {quarantinedCount > 0 && (
+            <li className="text-destructive">{quarantinedCount} invalid object(s) will be kept aside</li>
+          )}
+        </ul>
+        <AlertDialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => file && onConfirm(file)}>Replace board</Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default BoardFileImportDialog;
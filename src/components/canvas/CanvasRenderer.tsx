@@ -0,0 +1,184 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+import { boundsIntersect, type Bounds, type Point } from '@/lib/canvas/objects';
+import { drawObject, getRenderBounds, type Highlight } from '@/lib/canvas/render';
+import { createSpatialIndex } from '@/lib/canvas/spatial-index';
+import type { CanvasObject } from '@/lib/canvas/types';
+
+interface CanvasRendererProps {
+  objects: CanvasObject[];
+  pan: Point;
+  zoom: number;
+  width: number;
+  height: number;
+  /** Objects drawn by the DOM instead, like the one whose text is being edited. */
+  skipIds: Set<string>;
+  highlights: Map<string, Highlight>;
+  /** Bounds of the group being edited, which gets a dashed frame around it. */
+  groupBounds: Bounds | null;
+  marquee: Bounds | null;
+}
+
+type Frame = Omit<CanvasRendererProps, 'skipIds' | 'highlights'> & {
+  ratio: number;
+  /** How each skipped or highlighted object was drawn, by id. */
+  decorations: Map<string, string>;
+};
+
+// More dirty areas than this are redrawn as one.
+const MAX_DIRTY_AREAS = 16;
+
+const MARQUEE_STROKE = 'hsl(262, 83%, 58%)';
+const MARQUEE_FILL = 'hsla(262, 83%, 58%, 0.1)';
+const GROUP_FRAME_STROKE = '#9CA3AF';
+const GROUP_FRAME_GAP = 12;
+
+const expand = (bounds: Bounds, margin: number): Bounds => ({
+  minX: bounds.minX - margin,
+  minY: bounds.minY - margin,
+  maxX: bounds.maxX + margin,
+  maxY: bounds.maxY + margin,
+});
+
+const sameBounds = (a: Bounds | null, b: Bounds | null) =>
+  a === b || (!!a && !!b && a.minX === b.minX && a.minY === b.minY && a.maxX === b.maxX && a.maxY === b.maxY);
+
+const describeHighlight = (highlight: Highlight) => (highlight.kind === 'selected' ? 'selected' : `hovered ${highlight.color}`);
+
+// Everything that changed since `previous` was drawn, as areas of the board,
+// or 'all' when the view moved or objects were added, removed or reordered.
+const findDirtyAreas = (previous: Frame | null, next: Frame): Bounds[] | 'all' => {
+  if (
+    !previous ||
+    previous.ratio !== next.ratio ||
+    previous.zoom !== next.zoom ||
+    previous.pan.x !== next.pan.x ||
+    previous.pan.y !== next.pan.y ||
+    previous.width !== next.width ||
+    previous.height !== next.height
+  ) {
+    return 'all';
+  }
+
+  const areas: Bounds[] = [];
+  if (previous.objects !== next.objects) {
+    if (previous.objects.length !== next.objects.length) return 'all';
+    for (let i = 0; i < next.objects.length; i++) {
+      const before = previous.objects[i];
+      const after = next.objects[i];
+      if (before === after) continue;
+      if (before.id !== after.id) return 'all';
+      areas.push(getRenderBounds(before), getRenderBounds(after));
+    }
+  }
+
+  const changedIds = [...new Set([...previous.decorations.keys(), ...next.decorations.keys()])].filter(
+    (id) => previous.decorations.get(id) !== next.decorations.get(id),
+  );
+  if (changedIds.length > 0) {
+    const changed = new Set(changedIds);
+    next.objects.forEach((obj) => {
+      if (changed.has(obj.id)) areas.push(getRenderBounds(obj));
+    });
+  }
+
+  // Both are drawn with a 1px stroke, and the group frame `GROUP_FRAME_GAP` out.
+  const outlines: [Bounds | null, Bounds | null, number][] = [
+    [previous.groupBounds, next.groupBounds, GROUP_FRAME_GAP + 1],
+    [previous.marquee, next.marquee, 1],
+  ];
+  outlines.forEach(([before, after, reach]) => {
+    if (sameBounds(before, after)) return;
+    if (before) areas.push(expand(before, reach));
+    if (after) areas.push(expand(after, reach));
+  });
+  return areas;
+};
+
+// Draws the board into one <canvas> instead of an element per object. After
+// each render only the areas that changed are cleared and redrawn, with the
+// objects in them looked up in a spatial index of everything each object's
+// drawing reaches; moving the view redraws what is on screen.
+const CanvasRenderer = ({ objects, pan, zoom, width, height, skipIds, highlights, groupBounds, marquee }: CanvasRendererProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<Frame | null>(null);
+  const [index] = useState(() => createSpatialIndex(getRenderBounds));
+
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    index.sync(objects);
+
+    const ratio = window.devicePixelRatio || 1;
+    const decorations = new Map<string, string>();
+    skipIds.forEach((id) => decorations.set(id, 'skipped'));
+    highlights.forEach((highlight, id) => {
+      if (!skipIds.has(id)) decorations.set(id, describeHighlight(highlight));
+    });
+    const frame: Frame = { objects, pan, zoom, width, height, groupBounds, marquee, ratio, decorations };
+    // Resizing the canvas clears it.
+    if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+      frameRef.current = null;
+    }
+    const dirty = findDirtyAreas(frameRef.current, frame);
+    frameRef.current = frame;
+
+    const scale = (zoom / 100) * ratio;
+    const view = {
+      minX: -pan.x / (zoom / 100),
+      minY: -pan.y / (zoom / 100),
+      maxX: (width - pan.x) / (zoom / 100),
+      maxY: (height - pan.y) / (zoom / 100),
+    };
+    let areas = dirty === 'all' ? [view] : dirty.filter((area) => boundsIntersect(area, view));
+    if (areas.length > MAX_DIRTY_AREAS) {
+      areas = [areas.reduce((a, b) => ({
+        minX: Math.min(a.minX, b.minX),
+        minY: Math.min(a.minY, b.minY),
+        maxX: Math.max(a.maxX, b.maxX),
+        maxY: Math.max(a.maxY, b.maxY),
+      }))];
+    }
+
+    areas.forEach((area) => {
+      // Cleared on whole device pixels, so no half-cleared seams are left at the edges.
+      const left = Math.floor(area.minX * scale + pan.x * ratio);
+      const top = Math.floor(area.minY * scale + pan.y * ratio);
+      const right = Math.ceil(area.maxX * scale + pan.x * ratio);
+      const bottom = Math.ceil(area.maxY * scale + pan.y * ratio);
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.beginPath();
+      ctx.rect(left, top, right - left, bottom - top);
+      ctx.clip();
+      ctx.clearRect(left, top, right - left, bottom - top);
+      ctx.setTransform(scale, 0, 0, scale, pan.x * ratio, pan.y * ratio);
+
+      index.query(area).forEach((obj) => {
+        if (!skipIds.has(obj.id)) drawObject(ctx, obj, highlights.get(obj.id));
+      });
+      const groupFrame = groupBounds && expand(groupBounds, GROUP_FRAME_GAP);
+      if (groupFrame && boundsIntersect(groupFrame, area)) {
+        ctx.strokeStyle = GROUP_FRAME_STROKE;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([3, 3]);
+        ctx.strokeRect(groupFrame.minX, groupFrame.minY, groupFrame.maxX - groupFrame.minX, groupFrame.maxY - groupFrame.minY);
+        ctx.setLineDash([]);
+      }
+      if (marquee && boundsIntersect(marquee, area)) {
+        ctx.fillStyle = MARQUEE_FILL;
+        ctx.strokeStyle = MARQUEE_STROKE;
+        ctx.lineWidth = 1;
+        ctx.fillRect(marquee.minX, marquee.minY, marquee.maxX - marquee.minX, marquee.maxY - marquee.minY);
+        ctx.strokeRect(marquee.minX, marquee.minY, marquee.maxX - marquee.minX, marquee.maxY - marquee.minY);
+      }
+      ctx.restore();
+    });
+  });
+
+  return <canvas ref={canvasRef} className="absolute inset-0 pointer-events-none" style={{ width, height }} />;
+};
+
+export default CanvasRenderer;
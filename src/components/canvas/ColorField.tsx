@@ -0,0 +1,32 @@
+import { useRef } from 'react';
+
+interface ColorFieldProps {
+  id?: string;
+  value: string;
+  /** `commit` is false for each colour previewed while picking, and true once when a changed picker is left. */
+  onChange: (color: string, commit: boolean) => void;
+}
+
+// The picker reports every intermediate colour; only leaving it records an undo step.
+const ColorField = ({ id, value, onChange }: ColorFieldProps) => {
+  const changedRef = useRef(false);
+  return (
+    <input
+      id={id}
+      type="color"
+      value={value}
+      onChange={(e) => {
+        changedRef.current = true;
+        onChange(e.target.value, false);
+      }}
+      onBlur={(e) => {
+        if (!changedRef.current) return;
+        changedRef.current = false;
+        onChange(e.target.value, true);
+      }}
+      className="w-8 h-8 rounded cursor-pointer border-2 border-gray-200"
+    />
+  );
+};
+
+export default ColorField;
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { ConflictResolution, SyncConflict } from '@/lib/canvas/sync';
+
+interface ConflictDialogProps {
+  conflict: SyncConflict | null;
+  onResolve: (conflict: SyncConflict, resolution: ConflictResolution) => Promise<void>;
+}
+
+const ConflictDialog = ({ conflict, onResolve }: ConflictDialogProps) => {
+  const [busy, setBusy] = useState(false);
+
+  const resolve = async (resolution: ConflictResolution) => {
+    if (!conflict) return;
+    setBusy(true);
+    try {
+      await onResolve(conflict, resolution);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const serverProject = conflict?.server.project ?? null;
+  const name = serverProject?.name ?? conflict?.name ?? 'This board';
+  const deleted = conflict !== null && !serverProject;
+
+  return (
+    <AlertDialog open={conflict !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {deleted ? `"${name}" was deleted` : `"${name}" changed on the server since you opened it`}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {serverProject
+              ? `The server copy was updated ${formatDistanceToNow(new Date(serverProject.updated_at), { addSuffix: true })} and no longer matches the version your edits started from.`
+              : 'Someone deleted this board on the server while you had unsynced edits.'}
+            {' '}Choose which version to keep.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" disabled={busy} onClick={() => resolve('keep-server')}>
+            {deleted ? 'Discard my edits' : 'Use server version'}
+          </Button>
+          {!deleted && (
+            <Button variant="outline" disabled={busy} onClick={() => resolve('save-copy')}>
+              Save mine as a copy
+            </Button>
+          )}
+          <Button disabled={busy} onClick={() => resolve('keep-local')}>
+            {deleted ? 'Restore my version' : 'Keep my version'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ConflictDialog;
@@ -0,0 +1,28 @@
+import { CONNECTOR_ANCHORS, getAnchorPoint } from '@/lib/canvas/connectors';
+import type { CanvasObject, ConnectorAnchor } from '@/lib/canvas/types';
+
+interface ConnectorAnchorsProps {
+  shape: CanvasObject;
+  /** The anchor a connector end dropped here would attach to. */
+  active: ConnectorAnchor;
+}
+
+const DOT_SIZE = 8;
+
+// Shown on the shape under the pointer while drawing a line or arrow.
+const ConnectorAnchors = ({ shape, active }: ConnectorAnchorsProps) => (
+  <>
+    {CONNECTOR_ANCHORS.map((anchor) => {
+      const point = getAnchorPoint(shape, anchor);
+      return (
+        <div
+          key={anchor}
+          className={`absolute rounded-full border-2 border-primary pointer-events-none ${anchor === active ? 'bg-primary' : 'bg-white'}`}
+          style={{ left: point.x - DOT_SIZE / 2, top: point.y - DOT_SIZE / 2, width: DOT_SIZE, height: DOT_SIZE }}
+        />
+      );
+    })}
+  </>
+);
+
+export default ConnectorAnchors;
@@ -0,0 +1,409 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SidebarContent, SidebarGroup, SidebarGroupContent, SidebarGroupLabel } from '@/components/ui/sidebar';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Toggle } from '@/components/ui/toggle';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import ColorField from '@/components/canvas/ColorField';
+import {
+  FONT_SIZE_PROPERTY,
+  GEOMETRY_PROPERTIES,
+  STYLE_PROPERTIES,
+  sharedValue,
+  type NumericProperty,
+} from '@/lib/canvas/properties';
+import { isConnector } from '@/lib/canvas/connectors';
+import { ARROWHEAD_STYLES, getArrowheads, setArrowhead } from '@/lib/canvas/lines';
+import { hasOutline } from '@/lib/canvas/style';
+import { canHaveText, setTextStyle, type TextFormat } from '@/lib/canvas/text';
+import type { ArrowheadStyle, CanvasObject, LineRouting, StrokeStyle, TextStyle } from '@/lib/canvas/types';
+
+type ObjectUpdate = (obj: CanvasObject) => CanvasObject;
+
+interface InspectorPanelProps {
+  /** The editable part of the selection. */
+  objects: CanvasObject[];
+  /** How many selected objects are locked or hidden and left alone. */
+  skippedCount: number;
+  /**
+   * Applies `update` to every object in `objects`. `commit` is false for
+   * live previews; the committing call records the edit as one undo step.
+   */
+  onUpdate: (update: ObjectUpdate, commit: boolean) => void;
+  onClose: () => void;
+}
+
+interface FieldProps {
+  objects: CanvasObject[];
+  onUpdate: InspectorPanelProps['onUpdate'];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Edits are kept as a draft while typing and applied on Enter (Ctrl+Enter in
+// a text area) or blur; Escape throws the draft away.
+const useDraft = (commit: (draft: string) => void) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const inputProps = {
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(e.target.value),
+    onBlur: () => {
+      if (draft !== null) commit(draft);
+      setDraft(null);
+    },
+    onKeyDown: (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      // Keeps Escape from also clearing the selection.
+      e.stopPropagation();
+      const isMultiline = e.currentTarget instanceof HTMLTextAreaElement;
+      if (e.key === 'Enter' && (!isMultiline || e.ctrlKey || e.metaKey)) e.currentTarget.blur();
+      if (e.key === 'Escape') setDraft(null);
+    },
+  };
+  return { draft, inputProps };
+};
+
+const NumberField = ({ property, objects, onUpdate }: FieldProps & { property: NumericProperty }) => {
+  const applicable = objects.filter(property.applies);
+  const value = sharedValue(applicable, (obj) => round(property.get(obj)));
+  const { draft, inputProps } = useDraft((text) => {
+    const parsed = Number(text);
+    if (text.trim() === '' || !Number.isFinite(parsed)) return;
+    const clamped = Math.min(property.max ?? Infinity, Math.max(property.min ?? -Infinity, parsed));
+    onUpdate((obj) => (property.applies(obj) ? property.set(obj, clamped) : obj), true);
+  });
+  if (applicable.length === 0) return null;
+
+  return (
+    <label className="flex items-center gap-2">
+      <span className="w-12 shrink-0 text-xs text-muted-foreground">{property.label}</span>
+      <Input
+        type="number"
+        className="h-8 px-2"
+        min={property.min}
+        max={property.max}
+        value={draft ?? value ?? ''}
+        placeholder={value === null ? 'Mixed' : undefined}
+        {...inputProps}
+      />
+      {property.unit && <span className="w-4 shrink-0 text-xs text-muted-foreground">{property.unit}</span>}
+    </label>
+  );
+};
+
+const ObjectColorField = ({
+  label,
+  objects,
+  onUpdate,
+  get,
+  set,
+}: FieldProps & { label: string; get: (obj: CanvasObject) => string; set: (obj: CanvasObject, color: string) => CanvasObject }) => {
+  if (objects.length === 0) return null;
+  const value = sharedValue(objects, get);
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <span className="flex items-center gap-2">
+        {value === null && <span className="text-xs text-muted-foreground">Mixed</span>}
+        <ColorField value={value ?? get(objects[0])} onChange={(color, commit) => onUpdate((obj) => set(obj, color), commit)} />
+      </span>
+    </label>
+  );
+};
+
+const TextField = ({ objects, onUpdate }: FieldProps) => {
+  const value = sharedValue(objects, (obj) => obj.text ?? '');
+  const { draft, inputProps } = useDraft((text) => onUpdate((obj) => ({ ...obj, text }), true));
+  if (objects.length === 0) return null;
+  return (
+    <Textarea rows={3} className="px-2" value={draft ?? value ?? ''} placeholder={value === null ? 'Mixed' : 'Empty'} {...inputProps} />
+  );
+};
+
+const TEXT_FORMATS: { format: TextFormat; icon: string; label: string }[] = [
+  { format: 'bold', icon: 'Bold', label: 'Bold (Ctrl+B)' },
+  { format: 'italic', icon: 'Italic', label: 'Italic (Ctrl+I)' },
+  { format: 'underline', icon: 'Underline', label: 'Underline (Ctrl+U)' },
+  { format: 'strikethrough', icon: 'Strikethrough', label: 'Strikethrough' },
+];
+
+const ALIGNMENTS: { value: NonNullable<TextStyle['align']>; icon: string }[] = [
+  { value: 'left', icon: 'AlignLeft' },
+  { value: 'center', icon: 'AlignCenter' },
+  { value: 'right', icon: 'AlignRight' },
+];
+
+const VERTICAL_ALIGNMENTS: { value: NonNullable<TextStyle['verticalAlign']>; icon: string }[] = [
+  { value: 'top', icon: 'AlignVerticalJustifyStart' },
+  { value: 'middle', icon: 'AlignVerticalJustifyCenter' },
+  { value: 'bottom', icon: 'AlignVerticalJustifyEnd' },
+];
+
+// `objects` are the text boxes and sticky notes of the selection.
+const TextFormatting = ({ objects, onUpdate }: FieldProps) => {
+  const style = (obj: CanvasObject) => obj.textStyle ?? {};
+  const activeFormats = TEXT_FORMATS.filter(({ format }) => objects.every((obj) => style(obj)[format])).map(({ format }) => format);
+  const align = sharedValue(objects, (obj) => style(obj).align ?? 'center');
+  const verticalAlign = sharedValue(objects, (obj) => style(obj).verticalAlign ?? 'middle');
+  const bulleted = objects.every((obj) => style(obj).list === 'bullet');
+  const autoFit = sharedValue(objects, (obj) => !!style(obj).autoFit);
+  const set = <K extends keyof TextStyle>(key: K, value: TextStyle[K]) => onUpdate((obj) => setTextStyle(obj, key, value), true);
+
+  return (
+    <div className="space-y-2">
+      <NumberField property={FONT_SIZE_PROPERTY} objects={objects} onUpdate={onUpdate} />
+      <div className="flex items-center gap-1">
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          value={activeFormats}
+          onValueChange={(values) => {
+            const changed = TEXT_FORMATS.find(({ format }) => values.includes(format) !== activeFormats.includes(format));
+            if (changed) set(changed.format, values.includes(changed.format));
+          }}
+        >
+          {TEXT_FORMATS.map(({ format, icon, label }) => (
+            <ToggleGroupItem key={format} value={format} title={label} className="h-8 px-2">
+              <Icon name={icon} size={14} />
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <Toggle
+          size="sm"
+          className="h-8 px-2"
+          title="Bullet list"
+          pressed={bulleted}
+          onPressedChange={(pressed) => set('list', pressed ? 'bullet' : undefined)}
+        >
+          <Icon name="List" size={14} />
+        </Toggle>
+      </div>
+      <div className="flex items-center gap-1">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={align ?? ''}
+          onValueChange={(value) => value && set('align', value === 'center' ? undefined : (value as TextStyle['align']))}
+        >
+          {ALIGNMENTS.map(({ value, icon }) => (
+            <ToggleGroupItem key={value} value={value} title={`Align ${value}`} className="h-8 px-2">
+              <Icon name={icon} size={14} />
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={verticalAlign ?? ''}
+          onValueChange={(value) =>
+            value && set('verticalAlign', value === 'middle' ? undefined : (value as TextStyle['verticalAlign']))
+          }
+        >
+          {VERTICAL_ALIGNMENTS.map(({ value, icon }) => (
+            <ToggleGroupItem key={value} value={value} title={`Align ${value}`} className="h-8 px-2">
+              <Icon name={icon} size={14} />
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="inspector-auto-fit" className="text-xs font-normal text-muted-foreground">
+          Shrink text to fit{autoFit === null && ' (mixed)'}
+        </Label>
+        <Switch id="inspector-auto-fit" checked={autoFit === true} onCheckedChange={(checked) => set('autoFit', checked)} />
+      </div>
+    </div>
+  );
+};
+
+const ARROWHEAD_LABELS: Record<ArrowheadStyle, string> = {
+  none: 'None',
+  triangle: 'Triangle',
+  open: 'Open',
+  diamond: 'Diamond',
+  circle: 'Circle',
+  bar: 'Bar',
+};
+
+const ArrowheadField = ({ objects, onUpdate, end }: FieldProps & { end: 'start' | 'end' }) => {
+  const value = sharedValue(objects, (obj) => getArrowheads(obj)[end]);
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-12 shrink-0 text-xs text-muted-foreground">{end === 'start' ? 'Start' : 'End'}</span>
+      <Select
+        value={value ?? ''}
+        onValueChange={(style) =>
+          onUpdate((obj) => (isConnector(obj) ? setArrowhead(obj, end, style as ArrowheadStyle) : obj), true)
+        }
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue placeholder="Mixed" />
+        </SelectTrigger>
+        <SelectContent>
+          {ARROWHEAD_STYLES.map((style) => (
+            <SelectItem key={style} value={style}>
+              {ARROWHEAD_LABELS[style]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+const InspectorPanel = ({ objects, skippedCount, onUpdate, onClose }: InspectorPanelProps) => {
+  const outlined = objects.filter(hasOutline);
+  const withText = objects.filter(canHaveText);
+  const connectors = objects.filter(isConnector);
+  const routing = sharedValue(connectors, (obj) => obj.routing ?? 'straight');
+  const attached = connectors.some((obj) => obj.startBinding || obj.endBinding);
+  const strokeStyle = sharedValue(objects, (obj) => obj.strokeStyle ?? 'solid');
+  const noFill = sharedValue(outlined, (obj) => !!obj.noFill);
+  const updateText: InspectorPanelProps['onUpdate'] = (update, commit) =>
+    onUpdate((obj) => (canHaveText(obj) ? update(obj) : obj), commit);
+  // Fresh fields for every selection, so a half-typed value never carries over.
+  const selectionKey = objects.map((obj) => obj.id).join(',');
+
+  return (
+    <div className="h-full bg-white flex flex-col">
+      <div className="h-12 flex items-center justify-between px-3 border-b border-gray-200">
+        <h2 className="text-sm font-semibold">
+          Properties
+          {objects.length > 1 && <span className="ml-1 font-normal text-muted-foreground">({objects.length} objects)</span>}
+        </h2>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+          <Icon name="X" size={14} />
+        </Button>
+      </div>
+      {objects.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">
+          {skippedCount > 0 ? 'Locked and hidden objects cannot be edited' : 'Select an object to see its properties'}
+        </p>
+      ) : (
+        <SidebarContent key={selectionKey}>
+          <SidebarGroup>
+            <SidebarGroupLabel>Position and size</SidebarGroupLabel>
+            <SidebarGroupContent className="grid grid-cols-2 gap-2">
+              {GEOMETRY_PROPERTIES.map((property) => (
+                <NumberField key={property.key} property={property} objects={objects} onUpdate={onUpdate} />
+              ))}
+            </SidebarGroupContent>
+          </SidebarGroup>
+          <SidebarGroup>
+            <SidebarGroupLabel>Appearance</SidebarGroupLabel>
+            <SidebarGroupContent className="space-y-2">
+              <ObjectColorField
+                label={outlined.length > 0 ? 'Fill' : 'Colour'}
+                objects={objects}
+                onUpdate={onUpdate}
+                get={(obj) => obj.color}
+                set={(obj, color) => ({ ...obj, color })}
+              />
+              <ObjectColorField
+                label="Outline"
+                objects={outlined}
+                onUpdate={onUpdate}
+                get={(obj) => obj.stroke ?? '#ffffff'}
+                set={(obj, stroke) => (hasOutline(obj) ? { ...obj, stroke } : obj)}
+              />
+              {outlined.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="inspector-no-fill" className="text-xs font-normal text-muted-foreground">
+                    No fill{noFill === null && ' (mixed)'}
+                  </Label>
+                  <Switch
+                    id="inspector-no-fill"
+                    checked={noFill === true}
+                    onCheckedChange={(checked) =>
+                      onUpdate((obj) => (hasOutline(obj) ? { ...obj, noFill: checked || undefined } : obj), true)
+                    }
+                  />
+                </div>
+              )}
+              {STYLE_PROPERTIES.map((property) => (
+                <NumberField key={property.key} property={property} objects={objects} onUpdate={onUpdate} />
+              ))}
+              <div className="flex items-center gap-2">
+                <span className="w-12 shrink-0 text-xs text-muted-foreground">Line</span>
+                <Select
+                  value={strokeStyle ?? ''}
+                  onValueChange={(value) => onUpdate((obj) => ({ ...obj, strokeStyle: value as StrokeStyle }), true)}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Mixed" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="solid">Solid</SelectItem>
+                    <SelectItem value="dashed">Dashed</SelectItem>
+                    <SelectItem value="dotted">Dotted</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
+          {connectors.length > 0 && (
+            <SidebarGroup>
+              <SidebarGroupLabel>Connector</SidebarGroupLabel>
+              <SidebarGroupContent className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="w-12 shrink-0 text-xs text-muted-foreground">Route</span>
+                  <Select
+                    value={routing ?? ''}
+                    onValueChange={(value) =>
+                      onUpdate(
+                        (obj) => (isConnector(obj) ? { ...obj, routing: value === 'straight' ? undefined : (value as LineRouting) } : obj),
+                        true,
+                      )
+                    }
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue placeholder="Mixed" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="straight">Straight</SelectItem>
+                      <SelectItem value="elbow">Elbow</SelectItem>
+                      <SelectItem value="curved">Curved</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <ArrowheadField objects={connectors} onUpdate={onUpdate} end="start" />
+                <ArrowheadField objects={connectors} onUpdate={onUpdate} end="end" />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  disabled={!attached}
+                  onClick={() =>
+                    onUpdate((obj) => (isConnector(obj) ? { ...obj, startBinding: undefined, endBinding: undefined } : obj), true)
+                  }
+                >
+                  <Icon name="Unlink" size={14} className="mr-1" />
+                  Detach from shapes
+                </Button>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          )}
+          {withText.length > 0 && (
+            <SidebarGroup>
+              <SidebarGroupLabel>Text</SidebarGroupLabel>
+              <SidebarGroupContent className="space-y-2">
+                <TextField objects={withText} onUpdate={updateText} />
+                <TextFormatting objects={withText} onUpdate={updateText} />
+              </SidebarGroupContent>
+            </SidebarGroup>
+          )}
+          {skippedCount > 0 && (
+            <p className="px-4 pb-4 text-xs text-muted-foreground">
+              {skippedCount} locked or hidden object(s) in the selection are not changed.
+            </p>
+          )}
+        </SidebarContent>
+      )}
+    </div>
+  );
+};
+
+export default InspectorPanel;
@@ -0,0 +1,189 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { ZOrderCommand } from '@/lib/canvas/z-order';
+import type { CanvasObject, Tool } from '@/lib/canvas/types';
+
+export type ObjectFlag = 'hidden' | 'locked';
+
+interface LayersPanelProps {
+  objects: CanvasObject[];
+  selectedIds: Set<string>;
+  onSelect: (id: string) => void;
+  onToggleFlag: (id: string, flag: ObjectFlag) => void;
+  /** `toIndex` is the object's new index in `objects` once it is taken out. */
+  onMove: (id: string, toIndex: number) => void;
+  onZOrder: (command: ZOrderCommand) => void;
+  onClose: () => void;
+}
+
+const TYPE_DISPLAY: Partial<Record<Tool, { icon: string; label: string }>> = {
+  rectangle: { icon: 'Square', label: 'Rectangle' },
+  circle: { icon: 'Circle', label: 'Circle' },
+  text: { icon: 'Type', label: 'Text' },
+  sticky: { icon: 'StickyNote', label: 'Sticky note' },
+  line: { icon: 'Minus', label: 'Line' },
+  arrow: { icon: 'ArrowRight', label: 'Arrow' },
+  pen: { icon: 'Pen', label: 'Drawing' },
+  image: { icon: 'Image', label: 'Image' },
+  diamond: { icon: 'Diamond', label: 'Diamond' },
+  triangle: { icon: 'Triangle', label: 'Triangle' },
+};
+
+const Z_ORDER_ACTIONS: { command: ZOrderCommand; icon: string; label: string }[] = [
+  { command: 'front', icon: 'BringToFront', label: 'Bring to front (Ctrl+Shift+])' },
+  { command: 'forward', icon: 'ArrowUp', label: 'Bring forward (Ctrl+])' },
+  { command: 'backward', icon: 'ArrowDown', label: 'Send backward (Ctrl+[)' },
+  { command: 'back', icon: 'SendToBack', label: 'Send to back (Ctrl+Shift+[)' },
+];
+
+// Only the rows in view (and a few either side, so scrolling shows no gaps)
+// are rendered, which keeps boards with thousands of objects responsive.
+const ROW_HEIGHT = 32;
+const OVERSCAN = 10;
+
+const rowLabel = (obj: CanvasObject) => obj.text?.trim() || TYPE_DISPLAY[obj.type]?.label || obj.type;
+
+const LayersPanel = ({ objects, selectedIds, onSelect, onToggleFlag, onMove, onZOrder, onClose }: LayersPanelProps) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  // `id: null` is the slot below the last row.
+  const [dropTarget, setDropTarget] = useState<{ id: string | null } | null>(null);
+  const [view, setView] = useState({ top: 0, height: 0 });
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const update = () => setView({ top: list.scrollTop, height: list.clientHeight });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(list);
+    list.addEventListener('scroll', update, { passive: true });
+    return () => {
+      observer.disconnect();
+      list.removeEventListener('scroll', update);
+    };
+  }, []);
+
+  // Topmost object first, like every layers list.
+  const rows = [...objects].reverse();
+  const first = Math.max(0, Math.floor(view.top / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((view.top + view.height) / ROW_HEIGHT) + OVERSCAN);
+
+  // Dropping on a row puts the dragged object directly above it; dropping
+  // below the list sends it to the back.
+  const dropOn = (targetId: string | null) => {
+    if (draggedId && draggedId !== targetId) {
+      const rest = objects.filter((obj) => obj.id !== draggedId);
+      const targetIndex = rest.findIndex((obj) => obj.id === targetId);
+      onMove(draggedId, targetIndex + 1);
+    }
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <aside className="w-64 bg-white border-l border-gray-200 flex flex-col">
+      <div className="h-12 flex items-center justify-between px-3 border-b border-gray-200">
+        <h2 className="text-sm font-semibold">Layers</h2>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+          <Icon name="X" size={14} />
+        </Button>
+      </div>
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-gray-200">
+        {Z_ORDER_ACTIONS.map(({ command, icon, label }) => (
+          <Tooltip key={command}>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={selectedIds.size === 0}
+                onClick={() => onZOrder(command)}
+              >
+                <Icon name={icon} size={14} />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">{label}</TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+      <div ref={listRef} className="flex-1 min-h-0 overflow-y-auto">
+        {rows.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">No objects yet</p>
+        ) : (
+          <ul className="py-1">
+            <li style={{ height: first * ROW_HEIGHT }} />
+            {rows.slice(first, last).map((obj) => (
+              <li
+                key={obj.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggedId(obj.id);
+                }}
+                onDragOver={(e) => {
+                  if (!draggedId) return;
+                  e.preventDefault();
+                  setDropTarget({ id: obj.id });
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  dropOn(obj.id);
+                }}
+                onDragEnd={() => {
+                  setDraggedId(null);
+                  setDropTarget(null);
+                }}
+                onClick={() => onSelect(obj.id)}
+                className={`group flex items-center gap-2 px-2 h-8 text-sm cursor-pointer border-t-2 ${
+                  dropTarget?.id === obj.id && draggedId !== obj.id ? 'border-primary' : 'border-transparent'
+                } ${selectedIds.has(obj.id) ? 'bg-primary/10' : 'hover:bg-accent'} ${obj.hidden ? 'opacity-50' : ''}`}
+                style={{ paddingLeft: 8 + (obj.groupIds?.length ?? 0) * 12 }}
+              >
+                <Icon name={TYPE_DISPLAY[obj.type]?.icon ?? 'Shapes'} size={14} className="shrink-0" style={{ color: obj.color }} />
+                <span className="flex-1 truncate">{rowLabel(obj)}</span>
+                <button
+                  className={`shrink-0 ${obj.locked ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                  title={obj.locked ? 'Unlock' : 'Lock'}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleFlag(obj.id, 'locked');
+                  }}
+                >
+                  <Icon name={obj.locked ? 'Lock' : 'LockOpen'} size={14} />
+                </button>
+                <button
+                  className={`shrink-0 ${obj.hidden ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                  title={obj.hidden ? 'Show' : 'Hide'}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleFlag(obj.id, 'hidden');
+                  }}
+                >
+                  <Icon name={obj.hidden ? 'EyeOff' : 'Eye'} size={14} />
+                </button>
+              </li>
+            ))}
+            <li style={{ height: (rows.length - last) * ROW_HEIGHT }} />
+            <li
+              className={`h-6 border-t-2 ${dropTarget?.id === null ? 'border-primary' : 'border-transparent'}`}
+              onDragOver={(e) => {
+                if (!draggedId) return;
+                e.preventDefault();
+                setDropTarget({ id: null });
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                dropOn(null);
+              }}
+            />
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default LayersPanel;
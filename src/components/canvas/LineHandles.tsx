@@ -0,0 +1,54 @@
+import { getControlPoints } from '@/lib/canvas/lines';
+import type { Point } from '@/lib/canvas/objects';
+import type { CanvasObject } from '@/lib/canvas/types';
+
+interface LineHandlesProps {
+  obj: CanvasObject;
+  /** Starts dragging control point `index` (the start, a waypoint or the end). */
+  onPointDragStart: (e: React.MouseEvent, index: number) => void;
+  /** Starts dragging a new waypoint out of the middle of the segment after control point `index`. */
+  onInsertStart: (e: React.MouseEvent, index: number, point: Point) => void;
+  onRemove: (index: number) => void;
+}
+
+// Handles for a single selected line or arrow: its ends, its waypoints and,
+// between each pair, a fainter handle that adds a waypoint when dragged.
+const LineHandles = ({ obj, onPointDragStart, onInsertStart, onRemove }: LineHandlesProps) => {
+  const points = getControlPoints(obj);
+  const last = points.length - 1;
+
+  return (
+    <>
+      {points.slice(1).map((to, i) => {
+        const middle = { x: (points[i].x + to.x) / 2, y: (points[i].y + to.y) / 2 };
+        return (
+          <div
+            key={`insert-${i}`}
+            className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full border border-primary bg-white/70 cursor-copy"
+            style={{ left: middle.x, top: middle.y }}
+            title="Drag to add a waypoint"
+            onMouseDown={(e) => onInsertStart(e, i, middle)}
+          />
+        );
+      })}
+      {points.map((point, index) => {
+        const endpoint = index === 0 || index === last;
+        return (
+          <div
+            key={index}
+            className={`absolute w-3 h-3 -ml-1.5 -mt-1.5 border-2 border-primary cursor-move ${endpoint ? 'rounded-full bg-white' : 'rotate-45 bg-primary'}`}
+            style={{ left: point.x, top: point.y }}
+            title={endpoint ? 'Drag to move (Shift to snap the angle)' : 'Drag to move, double-click to remove'}
+            onMouseDown={(e) => onPointDragStart(e, index)}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              if (!endpoint) onRemove(index);
+            }}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+export default LineHandles;
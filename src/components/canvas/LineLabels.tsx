@@ -0,0 +1,64 @@
+import { LINE_LABEL_FONT_SIZE } from '@/lib/canvas/lines';
+import type { Point } from '@/lib/canvas/objects';
+import { getPointAlongLine } from '@/lib/canvas/paths';
+import { FONT_FAMILY } from '@/lib/canvas/text';
+import type { CanvasObject } from '@/lib/canvas/types';
+
+interface LineLabelsProps {
+  obj: CanvasObject;
+  /** Board position of the element the labels are placed in. */
+  origin: Point;
+  /** The label being typed into, if any. */
+  editingIndex: number | null;
+  onChange: (index: number, text: string) => void;
+  onDone: () => void;
+  onMouseDown: (e: React.MouseEvent, index: number) => void;
+  onDoubleClick: (e: React.MouseEvent, index: number) => void;
+}
+
+// Centred on their point along the line, on a background that hides the
+// stroke behind them so the text stays readable.
+const LineLabels = ({ obj, origin, editingIndex, onChange, onDone, onMouseDown, onDoubleClick }: LineLabelsProps) => (
+  <>
+    {(obj.labels ?? []).map((label, index) => {
+      const point = getPointAlongLine(obj, label.position);
+      const style = {
+        left: point.x - origin.x,
+        top: point.y - origin.y,
+        font: `500 ${LINE_LABEL_FONT_SIZE}px ${FONT_FAMILY}`,
+      };
+      if (index === editingIndex) {
+        return (
+          <input
+            key={index}
+            autoFocus
+            className="absolute -translate-x-1/2 -translate-y-1/2 px-1 rounded bg-white text-gray-800 text-center outline outline-1 outline-primary"
+            style={style}
+            size={Math.max(label.text.length, 4)}
+            value={label.text}
+            onChange={(e) => onChange(index, e.target.value)}
+            onBlur={onDone}
+            onMouseDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+            }}
+          />
+        );
+      }
+      return (
+        <div
+          key={index}
+          className="absolute -translate-x-1/2 -translate-y-1/2 px-1 rounded bg-white text-gray-800 whitespace-pre cursor-move"
+          style={style}
+          onMouseDown={(e) => onMouseDown(e, index)}
+          onDoubleClick={(e) => onDoubleClick(e, index)}
+        >
+          {label.text}
+        </div>
+      );
+    })}
+  </>
+);
+
+export default LineLabels;
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import Icon from '@/components/ui/icon';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  useProjects,
+  useRenameProject,
+  useDuplicateProject,
+  useDeleteProject,
+} from '@/hooks/use-canvas-api';
+import type { Project } from '@/lib/canvas/types';
+
+interface ProjectsSheetProps {
+  currentProjectId: number | null;
+  onOpen: (projectId: number) => void;
+  onCreate: () => void;
+  onRenamed: (projectId: number, name: string, updatedAt: string | null) => void;
+  onDeleted: (projectId: number) => void;
+}
+
+const ProjectsSheet = ({ currentProjectId, onOpen, onCreate, onRenamed, onDeleted }: ProjectsSheetProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const { data: projects = [], isLoading } = useProjects({ enabled: open });
+  const renameMutation = useRenameProject();
+  const duplicateMutation = useDuplicateProject();
+  const deleteMutation = useDeleteProject();
+
+  const handleOpen = (project: Project) => {
+    onOpen(project.id);
+    setOpen(false);
+  };
+
+  const handleCreate = () => {
+    onCreate();
+    setOpen(false);
+  };
+
+  const handleRename = (project: Project) => {
+    const name = prompt('Enter project name:', project.name);
+    if (!name || name === project.name) return;
+    renameMutation.mutate(
+      { projectId: project.id, name },
+      { onSuccess: (updatedAt) => onRenamed(project.id, name, updatedAt) },
+    );
+  };
+
+  const handleDuplicate = (project: Project) => {
+    duplicateMutation.mutate(project.id, {
+      onSuccess: () => toast({ title: `Project "${project.name}" duplicated` }),
+    });
+  };
+
+  const handleDelete = (project: Project) => {
+    if (!confirm(`Delete project "${project.name}"? This cannot be undone.`)) return;
+    deleteMutation.mutate(project.id, {
+      onSuccess: () => {
+        onDeleted(project.id);
+        toast({ title: 'Project deleted' });
+      },
+    });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <Icon name="Folder" size={16} />
+          Projects
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" className="w-80">
+        <SheetHeader>
+          <SheetTitle>Projects</SheetTitle>
+        </SheetHeader>
+        <Button size="sm" className="mt-6 w-full gap-2" onClick={handleCreate}>
+          <Icon name="Plus" size={14} />
+          New Project
+        </Button>
+        <div className="mt-4 space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading projects…</p>
+          ) : projects.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No saved projects yet</p>
+          ) : (
+            projects.map((project) => (
+              <Card
+                key={project.id}
+                className={`p-4 cursor-pointer hover:bg-accent transition-colors ${project.id === currentProjectId ? 'border-primary' : ''}`}
+                onClick={() => handleOpen(project)}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-12 h-12 rounded bg-primary/10 flex items-center justify-center shrink-0">
+                    <Icon name="Layers" size={20} className="text-primary" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-medium truncate">{project.name}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Updated {formatDistanceToNow(new Date(project.updated_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                      <Button variant="ghost" size="icon" className="shrink-0">
+                        <Icon name="MoreVertical" size={16} />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                      <DropdownMenuItem onClick={() => handleRename(project)}>
+                        <Icon name="Pencil" size={14} className="mr-2" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleDuplicate(project)}>
+                        <Icon name="Copy" size={14} className="mr-2" />
+                        Duplicate
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(project)}>
+                        <Icon name="Trash2" size={14} className="mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              </Card>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ProjectsSheet;
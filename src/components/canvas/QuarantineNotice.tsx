@@ -0,0 +1,70 @@
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from '@/hooks/use-toast';
+import type { QuarantinedObject } from '@/lib/canvas/types';
+
+interface QuarantineNoticeProps {
+  items: QuarantinedObject[];
+  onDiscard: () => void;
+}
+
+// Objects that failed validation are not drawn; this lets the user see why
+// and copy them out before they are thrown away.
+const QuarantineNotice = ({ items, onDiscard }: QuarantineNoticeProps) => {
+  if (items.length === 0) return null;
+
+  const copyAsJson = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(items.map((item) => item.value), null, 2));
+      toast({ title: 'Invalid objects copied to clipboard' });
+    } catch (error) {
+      toast({ title: 'Could not access the clipboard', variant: 'destructive' });
+    }
+  };
+
+  const discard = () => {
+    if (!confirm(`Discard ${items.length} invalid object(s)? This cannot be undone.`)) return;
+    onDiscard();
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1.5 text-destructive">
+          <Icon name="TriangleAlert" size={14} />
+          {items.length} not loaded
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96">
+        <h3 className="font-medium mb-1">Objects that could not be loaded</h3>
+        <p className="text-sm text-muted-foreground mb-3">
+          These objects are invalid and are not shown on the board.
+        </p>
+        <ScrollArea className="max-h-60 mb-3">
+          <ul className="space-y-2 text-sm">
+            {items.map((item, index) => (
+              <li key={index} className="rounded border p-2">
+                <code className="text-xs break-all">{JSON.stringify(item.value)}</code>
+                <p className="text-destructive mt-1">{item.reason}</p>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={copyAsJson}>
+            <Icon name="Copy" size={14} className="mr-1.5" />
+            Copy as JSON
+          </Button>
+          <Button variant="destructive" size="sm" onClick={discard}>
+            <Icon name="Trash2" size={14} className="mr-1.5" />
+            Discard
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default QuarantineNotice;
@@ -0,0 +1,21 @@
+import Icon from '@/components/ui/icon';
+import type { SaveStatus } from '@/hooks/use-autosave';
+
+const STATUS_DISPLAY: Record<SaveStatus, { icon: string; label: string; className: string }> = {
+  saved: { icon: 'Check', label: 'Saved', className: 'text-muted-foreground' },
+  saving: { icon: 'Loader2', label: 'Saving…', className: 'text-muted-foreground' },
+  unsaved: { icon: 'CircleDot', label: 'Unsaved changes', className: 'text-amber-600' },
+  offline: { icon: 'CloudOff', label: 'Offline', className: 'text-destructive' },
+};
+
+const SaveStatusIndicator = ({ status }: { status: SaveStatus }) => {
+  const { icon, label, className } = STATUS_DISPLAY[status];
+  return (
+    <span className={`flex items-center gap-1.5 text-sm ${className}`} aria-live="polite">
+      <Icon name={icon} size={14} className={status === 'saving' ? 'animate-spin' : undefined} />
+      {label}
+    </span>
+  );
+};
+
+export default SaveStatusIndicator;
@@ -0,0 +1,115 @@
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import ColorField from '@/components/canvas/ColorField';
+import {
+  MAX_CORNER_RADIUS,
+  MAX_STROKE_WIDTH,
+  hasCornerRadius,
+  hasOutline,
+  resolveStyle,
+  type ObjectStyle,
+} from '@/lib/canvas/style';
+import type { CanvasObject, StrokeStyle } from '@/lib/canvas/types';
+
+interface StylePopoverProps {
+  /** The object whose style is shown: the first selected one, or a stand-in for new objects. */
+  sample: CanvasObject;
+  /**
+   * `commit` is false while a slider is being dragged or a colour picked, so
+   * the caller can update the board live and record a single undo step at the end.
+   */
+  onChange: (patch: Partial<ObjectStyle>, commit: boolean) => void;
+}
+
+const STROKE_STYLES: { value: StrokeStyle; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+];
+
+const StylePopover = ({ sample, onChange }: StylePopoverProps) => {
+  const style = resolveStyle(sample);
+  const outlined = hasOutline(sample);
+
+  const slider = (value: number, max: number, min: number, toPatch: (value: number) => Partial<ObjectStyle>) => (
+    <Slider
+      min={min}
+      max={max}
+      step={1}
+      value={[value]}
+      onValueChange={([next]) => onChange(toPatch(next), false)}
+      onValueCommit={([next]) => onChange(toPatch(next), true)}
+    />
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <Icon name="Paintbrush" size={16} />
+          Style
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        {outlined && (
+          <>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="style-no-fill">No fill</Label>
+              <Switch
+                id="style-no-fill"
+                checked={!!sample.noFill}
+                onCheckedChange={(checked) => onChange({ noFill: checked || undefined }, true)}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="style-outline">Outline colour</Label>
+              <ColorField
+                id="style-outline"
+                value={sample.stroke ?? '#ffffff'}
+                onChange={(stroke, commit) => onChange({ stroke }, commit)}
+              />
+            </div>
+          </>
+        )}
+        <div className="space-y-2">
+          <Label>{outlined ? 'Outline width' : 'Stroke width'}: {style.strokeWidth}px</Label>
+          {slider(style.strokeWidth, MAX_STROKE_WIDTH, outlined ? 0 : 1, (strokeWidth) => ({ strokeWidth }))}
+        </div>
+        <div className="space-y-2">
+          <Label>Line style</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            className="justify-start"
+            value={style.strokeStyle}
+            onValueChange={(value) => value && onChange({ strokeStyle: value as StrokeStyle }, true)}
+          >
+            {STROKE_STYLES.map(({ value, label }) => (
+              <ToggleGroupItem key={value} value={value}>
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+        <div className="space-y-2">
+          <Label>Opacity: {Math.round(style.opacity * 100)}%</Label>
+          {slider(Math.round(style.opacity * 100), 100, 0, (value) => ({ opacity: value / 100 }))}
+        </div>
+        {hasCornerRadius(sample) && (
+          <div className="space-y-2">
+            <Label>Corner radius: {style.cornerRadius}px</Label>
+            {slider(style.cornerRadius, MAX_CORNER_RADIUS, 0, (cornerRadius) => ({ cornerRadius }))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default StylePopover;
@@ -0,0 +1,51 @@
+import { getTextArea, getTextColor, getTextDecoration, getTextOffset, layoutText } from '@/lib/canvas/text';
+import type { CanvasObject } from '@/lib/canvas/types';
+
+interface TextContentProps {
+  obj: CanvasObject;
+  /** Width of the box's border, which the text area is measured past. */
+  borderWidth: number;
+}
+
+// Draws the lines worked out by `layoutText` instead of letting the browser
+// wrap, so the text breaks exactly as it does everywhere else.
+const TextContent = ({ obj, borderWidth }: TextContentProps) => {
+  const style = obj.textStyle ?? {};
+  const area = getTextArea(obj);
+  const layout = layoutText(obj);
+
+  return (
+    <div
+      className="absolute pointer-events-none"
+      style={{
+        left: area.x - borderWidth,
+        top: area.y - borderWidth,
+        width: area.width,
+        height: area.height,
+        color: getTextColor(obj),
+        font: layout.font,
+        lineHeight: `${layout.lineHeight}px`,
+      }}
+    >
+      <div style={{ position: 'absolute', left: 0, right: 0, top: getTextOffset(layout, style, area.height) }}>
+        {layout.lines.map((line, index) => (
+          <div
+            key={index}
+            className="relative whitespace-pre"
+            style={{
+              height: layout.lineHeight,
+              paddingLeft: line.indent,
+              textAlign: style.align ?? 'center',
+              textDecoration: getTextDecoration(style),
+            }}
+          >
+            {line.bullet && <span className="absolute left-0">•</span>}
+            {line.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TextContent;
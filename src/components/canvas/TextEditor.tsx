@@ -0,0 +1,55 @@
+import { getTextArea, getTextColor, getTextDecoration, layoutText, type TextFormat } from '@/lib/canvas/text';
+import type { CanvasObject, TextStyle } from '@/lib/canvas/types';
+
+interface TextEditorProps {
+  obj: CanvasObject;
+  borderWidth: number;
+  onChange: (text: string) => void;
+  onToggleFormat: (format: TextFormat) => void;
+  onDone: () => void;
+}
+
+const SHORTCUTS: Record<string, TextFormat> = { b: 'bold', i: 'italic', u: 'underline' };
+
+// Edits in place over the text it replaces, in the same font and alignment.
+// Enter starts a new line; Escape or Ctrl+Enter finishes.
+const TextEditor = ({ obj, borderWidth, onChange, onToggleFormat, onDone }: TextEditorProps) => {
+  const style: TextStyle = obj.textStyle ?? {};
+  const area = getTextArea(obj);
+  const layout = layoutText(obj);
+
+  return (
+    <textarea
+      autoFocus
+      className="absolute bg-transparent outline-none resize-none overflow-hidden"
+      style={{
+        left: area.x - borderWidth,
+        top: area.y - borderWidth,
+        width: area.width,
+        height: area.height,
+        color: getTextColor(obj),
+        font: layout.font,
+        lineHeight: `${layout.lineHeight}px`,
+        textAlign: style.align ?? 'center',
+        textDecoration: getTextDecoration(style),
+      }}
+      value={obj.text ?? ''}
+      onFocus={(e) => e.currentTarget.select()}
+      onChange={(e) => onChange(e.target.value)}
+      onBlur={onDone}
+      onMouseDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        const format = SHORTCUTS[e.key.toLowerCase()];
+        if ((e.ctrlKey || e.metaKey) && format) {
+          e.preventDefault();
+          onToggleFormat(format);
+        } else if (e.key === 'Escape' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) {
+          e.currentTarget.blur();
+        }
+      }}
+    />
+  );
+};
+
+export default TextEditor;
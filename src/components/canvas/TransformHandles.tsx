@@ -0,0 +1,75 @@
+import type { Point, ResizeHandle } from '@/lib/canvas/objects';
+
+/** The box the handles are drawn around, turned `angle` degrees around its centre. */
+export interface TransformFrame {
+  center: Point;
+  width: number;
+  height: number;
+  angle: number;
+}
+
+interface TransformHandlesProps {
+  frame: TransformFrame;
+  /** Draws the frame itself; single boxes already show their own selection border. */
+  outlined: boolean;
+  onResizeStart: (e: React.MouseEvent, handle: ResizeHandle) => void;
+  onRotateStart: (e: React.MouseEvent) => void;
+}
+
+// Distance between the frame's top edge and the rotation handle.
+const ROTATE_HANDLE_OFFSET = 28;
+// Keeps the outline and handles clear of the objects' own borders.
+const FRAME_PADDING = 6;
+
+// Position of each handle as a fraction of the frame, measured from its centre.
+const HANDLES: { handle: ResizeHandle; fx: number; fy: number; cursor: string }[] = [
+  { handle: 'nw', fx: -0.5, fy: -0.5, cursor: 'cursor-nwse-resize' },
+  { handle: 'n', fx: 0, fy: -0.5, cursor: 'cursor-ns-resize' },
+  { handle: 'ne', fx: 0.5, fy: -0.5, cursor: 'cursor-nesw-resize' },
+  { handle: 'e', fx: 0.5, fy: 0, cursor: 'cursor-ew-resize' },
+  { handle: 'se', fx: 0.5, fy: 0.5, cursor: 'cursor-nwse-resize' },
+  { handle: 's', fx: 0, fy: 0.5, cursor: 'cursor-ns-resize' },
+  { handle: 'sw', fx: -0.5, fy: 0.5, cursor: 'cursor-nesw-resize' },
+  { handle: 'w', fx: -0.5, fy: 0, cursor: 'cursor-ew-resize' },
+];
+
+const TransformHandles = ({ frame, outlined, onResizeStart, onRotateStart }: TransformHandlesProps) => {
+  const width = frame.width + FRAME_PADDING * 2;
+  const height = frame.height + FRAME_PADDING * 2;
+  // Edge handles on a flat line or a tiny box would sit on top of the corners.
+  const showEdges = frame.width >= 24 && frame.height >= 24;
+
+  return (
+    <div
+      className="absolute pointer-events-none"
+      style={{ left: frame.center.x, top: frame.center.y, transform: frame.angle ? `rotate(${frame.angle}deg)` : undefined }}
+    >
+      {outlined && (
+        <div
+          className="absolute border-2 border-dashed border-primary"
+          style={{ left: -width / 2, top: -height / 2, width, height }}
+        />
+      )}
+      {HANDLES.filter(({ fx, fy }) => showEdges || (fx !== 0 && fy !== 0)).map(({ handle, fx, fy, cursor }) => (
+        <div
+          key={handle}
+          className={`absolute w-3 h-3 -ml-1.5 -mt-1.5 bg-primary border border-white rounded-full pointer-events-auto ${cursor}`}
+          style={{ left: fx * width, top: fy * height }}
+          onMouseDown={(e) => onResizeStart(e, handle)}
+        />
+      ))}
+      <div
+        className="absolute w-px bg-primary"
+        style={{ left: 0, top: -height / 2 - ROTATE_HANDLE_OFFSET, height: ROTATE_HANDLE_OFFSET }}
+      />
+      <div
+        className="absolute w-3.5 h-3.5 -ml-[7px] -mt-[7px] rounded-full border-2 border-primary bg-white cursor-grab pointer-events-auto"
+        style={{ left: 0, top: -height / 2 - ROTATE_HANDLE_OFFSET }}
+        title="Rotate (Shift to snap to 15°)"
+        onMouseDown={onRotateStart}
+      />
+    </div>
+  );
+};
+
+export default TransformHandles;
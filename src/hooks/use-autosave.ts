@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'offline';
+
+interface AutosaveOptions<T, R> {
+  value: T;
+  save: (value: T) => Promise<R>;
+  /** Autosave only runs while enabled; `saveNow` always works. */
+  enabled: boolean;
+  /** Hold off while a gesture is in progress so a drag produces one save, not one per mousemove. */
+  paused?: boolean;
+  /** Whether saving goes over the network; if not, being offline neither blocks nor shows. */
+  needsNetwork?: boolean;
+  delay?: number;
+}
+
+// Dirtiness is tracked by reference: the board state is immutable, so any
+// edit produces a new value and undoing back to the saved one is clean again.
+export function useAutosave<T, R = void>({
+  value,
+  save,
+  enabled,
+  paused = false,
+  needsNetwork = true,
+  delay = 1500,
+}: AutosaveOptions<T, R>) {
+  const [savedValue, setSavedValue] = useState<T | null>(value);
+  const [failedValue, setFailedValue] = useState<T | undefined>(undefined);
+  const [saving, setSaving] = useState(false);
+  const [browserOnline, setOnline] = useState(() => navigator.onLine);
+  const saveRef = useRef(save);
+  const valueRef = useRef(value);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  saveRef.current = save;
+  valueRef.current = value;
+
+  const isDirty = value !== savedValue;
+  const online = browserOnline || !needsNetwork;
+
+  // Saves are chained so a manual save never races an autosave already in flight.
+  const runSave = useCallback((snapshot: T): Promise<R> => {
+    setSaving(true);
+    const run = queueRef.current.catch(() => undefined).then(() => saveRef.current(snapshot));
+    queueRef.current = run;
+    run
+      .then(
+        () => {
+          setSavedValue(snapshot);
+          setFailedValue(undefined);
+        },
+        () => setFailedValue(snapshot),
+      )
+      .finally(() => {
+        if (queueRef.current === run) setSaving(false);
+      });
+    return run;
+  }, []);
+
+  const saveNow = useCallback(() => runSave(valueRef.current), [runSave]);
+
+  // `null` marks whatever is on screen as not yet saved.
+  const markSaved = useCallback((snapshot: T | null) => {
+    setSavedValue(snapshot);
+    setFailedValue(undefined);
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      setFailedValue(undefined);
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    // A failed snapshot is not retried on a timer; the next edit or
+    // reconnect tries again.
+    if (!enabled || paused || !online || saving || !isDirty || value === failedValue) return;
+    const timer = setTimeout(() => {
+      runSave(value).catch(() => undefined);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [value, enabled, paused, online, saving, isDirty, failedValue, delay, runSave]);
+
+  useEffect(() => {
+    if (!isDirty && !saving) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty, saving]);
+
+  const status: SaveStatus = !online ? 'offline' : saving ? 'saving' : isDirty ? 'unsaved' : 'saved';
+
+  return { status, isDirty, saveNow, markSaved };
+}
@@ -0,0 +1,10 @@
+import { createContext, useContext } from 'react';
+import { boardRepository, type BoardRepository } from '@/lib/canvas/repository';
+
+/**
+ * Defaults to the repository chosen by `VITE_BOARD_STORAGE`; wrap a tree in a
+ * provider to swap in another one, e.g. `createMemoryRepository()` in tests.
+ */
+export const BoardRepositoryContext = createContext<BoardRepository>(boardRepository);
+
+export const useBoardRepository = () => useContext(BoardRepositoryContext);
@@ -0,0 +1,126 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useBoardRepository } from '@/hooks/use-board-repository';
+import { shouldRetry } from '@/lib/query-client';
+import { CanvasApiError } from '@/lib/canvas/api';
+import type { BoardRepository } from '@/lib/canvas/repository';
+import { boardsEqual } from '@/lib/canvas/serialization';
+import type { CanvasObject } from '@/lib/canvas/types';
+
+export const canvasKeys = {
+  all: ['canvas-projects'] as const,
+  list: () => [...canvasKeys.all, 'list'] as const,
+  project: (projectId: number) => [...canvasKeys.all, 'project', projectId] as const,
+};
+
+export const projectQueryOptions = (repository: BoardRepository, projectId: number) =>
+  queryOptions({
+    queryKey: canvasKeys.project(projectId),
+    queryFn: () => repository.getProject(projectId),
+    retry: shouldRetry,
+    staleTime: 0,
+    meta: { errorMessage: 'Failed to load project' },
+  });
+
+export const useProjects = (options?: { enabled?: boolean }) => {
+  const repository = useBoardRepository();
+  return useQuery({
+    queryKey: canvasKeys.list(),
+    queryFn: () => repository.listProjects(),
+    select: (projects) =>
+      [...projects].sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()),
+    enabled: options?.enabled,
+    meta: { errorMessage: 'Failed to load projects' },
+  });
+};
+
+// Creating and duplicating are not idempotent, so those mutations are never
+// retried; renaming and deleting simply overwrite server state. Saves are
+// conditional on `baseUpdatedAt`, so retrying one whose first attempt went
+// through (but whose response was lost) is refused as a conflict with the
+// app's own write.
+
+// A save refused as a conflict while the server already holds exactly these
+// objects did go through; it resolves with the server's `updated_at`. Any
+// other conflict is rethrown with the server copy, so it is not fetched twice.
+const saveObjects = async (
+  repository: BoardRepository,
+  projectId: number,
+  objects: CanvasObject[],
+  baseUpdatedAt?: string | null,
+) => {
+  try {
+    return await repository.saveObjects(projectId, objects, baseUpdatedAt);
+  } catch (error) {
+    if (!(error instanceof CanvasApiError) || error.status !== 409) throw error;
+    const current = await repository.getProject(projectId).catch(() => null);
+    if (!current) throw error;
+    if (current.project && boardsEqual(objects, current.objects)) return current.project.updated_at;
+    throw new CanvasApiError(error.action, error.status, error.message, current);
+  }
+};
+
+export const useCreateProject = () => {
+  const queryClient = useQueryClient();
+  const repository = useBoardRepository();
+  return useMutation({
+    mutationFn: (name: string) => repository.createProject(name),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: canvasKeys.list() }),
+    meta: { errorMessage: 'Failed to create project' },
+  });
+};
+
+export const useSaveObjects = () => {
+  const queryClient = useQueryClient();
+  const repository = useBoardRepository();
+  return useMutation({
+    mutationFn: ({ projectId, objects, baseUpdatedAt }: {
+      projectId: number;
+      objects: CanvasObject[];
+      baseUpdatedAt?: string | null;
+    }) => saveObjects(repository, projectId, objects, baseUpdatedAt),
+    retry: shouldRetry,
+    onSuccess: (_data, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: canvasKeys.list() });
+      queryClient.invalidateQueries({ queryKey: canvasKeys.project(projectId) });
+    },
+    meta: { errorMessage: 'Failed to save project' },
+  });
+};
+
+export const useRenameProject = () => {
+  const queryClient = useQueryClient();
+  const repository = useBoardRepository();
+  return useMutation({
+    mutationFn: ({ projectId, name }: { projectId: number; name: string }) => repository.renameProject(projectId, name),
+    retry: shouldRetry,
+    onSuccess: (_data, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: canvasKeys.list() });
+      queryClient.invalidateQueries({ queryKey: canvasKeys.project(projectId) });
+    },
+    meta: { errorMessage: 'Failed to rename project' },
+  });
+};
+
+export const useDuplicateProject = () => {
+  const queryClient = useQueryClient();
+  const repository = useBoardRepository();
+  return useMutation({
+    mutationFn: (projectId: number) => repository.duplicateProject(projectId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: canvasKeys.list() }),
+    meta: { errorMessage: 'Failed to duplicate project' },
+  });
+};
+
+export const useDeleteProject = () => {
+  const queryClient = useQueryClient();
+  const repository = useBoardRepository();
+  return useMutation({
+    mutationFn: (projectId: number) => repository.deleteProject(projectId),
+    retry: shouldRetry,
+    onSuccess: (_data, projectId) => {
+      queryClient.invalidateQueries({ queryKey: canvasKeys.list() });
+      queryClient.removeQueries({ queryKey: canvasKeys.project(projectId) });
+    },
+    meta: { errorMessage: 'Failed to delete project' },
+  });
+};
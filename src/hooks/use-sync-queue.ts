@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+import { canvasKeys } from '@/hooks/use-canvas-api';
+import { useBoardRepository } from '@/hooks/use-board-repository';
+import { replayPendingSaves, resolveConflict, type ConflictResolution, type SyncConflict } from '@/lib/canvas/sync';
+
+// Replays saves queued in IndexedDB whenever the app starts or the browser
+// comes back online, and collects the conflicts that need a user decision.
+export function useSyncQueue(currentProjectId: number | null) {
+  const queryClient = useQueryClient();
+  const repository = useBoardRepository();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const currentProjectRef = useRef(currentProjectId);
+  const replayingRef = useRef(false);
+
+  currentProjectRef.current = currentProjectId;
+
+  const addConflict = useCallback((conflict: SyncConflict) => {
+    setConflicts((prev) => [...prev.filter((c) => c.projectId !== conflict.projectId), conflict]);
+  }, []);
+
+  const replay = useCallback(async () => {
+    if (replayingRef.current || !navigator.onLine) return;
+    replayingRef.current = true;
+    try {
+      const result = await replayPendingSaves(repository, currentProjectRef.current);
+      result.conflicts.forEach(addConflict);
+      if (result.synced > 0) {
+        queryClient.invalidateQueries({ queryKey: canvasKeys.all });
+        toast({ title: `Synced offline changes to ${result.synced} board(s)` });
+      }
+    } catch (error) {
+      console.error('Failed to replay offline saves:', error);
+    } finally {
+      replayingRef.current = false;
+    }
+  }, [addConflict, queryClient, repository]);
+
+  useEffect(() => {
+    replay();
+    window.addEventListener('online', replay);
+    return () => window.removeEventListener('online', replay);
+  }, [replay]);
+
+  const resolve = useCallback(async (conflict: SyncConflict, resolution: ConflictResolution) => {
+    const result = await resolveConflict(repository, conflict, resolution);
+    setConflicts((prev) => prev.filter((c) => c !== conflict));
+    queryClient.invalidateQueries({ queryKey: canvasKeys.all });
+    return result;
+  }, [queryClient, repository]);
+
+  return { conflicts, addConflict, resolve };
+}
@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import { CURRENT_SCHEMA_VERSION, loadObjects } from './document';
+import type { LoadedBoard } from './repository';
+import { projectSchema } from './schemas';
+import type { CanvasObject, Project, QuarantinedObject } from './types';
+
+export const API_URL = import.meta.env.VITE_CANVAS_API_URL || 'https://functions.poehali.dev/162b3525-6c8b-4235-b923-aa2e333cf260';
+
+export type CanvasApiAction =
+  | 'list'
+  | 'get'
+  | 'create_project'
+  | 'save_objects'
+  | 'rename_project'
+  | 'duplicate_project'
+  | 'delete_project';
+
+export class CanvasApiError extends Error {
+  constructor(
+    public readonly action: CanvasApiAction,
+    public readonly status: number | null,
+    message: string,
+    /** The server's copy of the board, when it was already fetched while handling the error. */
+    public readonly server?: LoadedBoard,
+  ) {
+    super(message);
+    this.name = 'CanvasApiError';
+  }
+
+  // Network failures and 5xx responses are worth retrying; 4xx responses and
+  // malformed payloads will fail the same way again.
+  get isTransient() {
+    return this.status === null || this.status >= 500;
+  }
+
+  // The server refused a save because the project changed or disappeared
+  // since the version the client started from.
+  get isConflict() {
+    return this.action === 'save_objects' && (this.status === 409 || this.status === 404);
+  }
+}
+
+// `data` is checked object by object when the board is loaded, so a single
+// bad row is quarantined instead of failing the whole response.
+const objectRowSchema = z.object({
+  object_id: z.string(),
+  type: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nullable(),
+  height: z.number().nullable(),
+  text: z.string().nullable(),
+  color: z.string(),
+  data: z.unknown().optional(),
+});
+
+const listResponseSchema = z.object({ projects: z.array(projectSchema) });
+const getResponseSchema = z.object({ project: projectSchema.nullable(), objects: z.array(objectRowSchema) });
+const projectIdResponseSchema = z.object({ project_id: z.number() });
+const successResponseSchema = z.object({ success: z.literal(true) });
+const updateResponseSchema = successResponseSchema.extend({ updated_at: z.string().nullable().optional() });
+
+const request = async <S extends z.ZodTypeAny>(
+  action: CanvasApiAction,
+  schema: S,
+  init?: { query?: Record<string, string>; body?: Record<string, unknown> },
+): Promise<z.infer<S>> => {
+  const url = init?.query ? `${API_URL}?${new URLSearchParams(init.query)}` : API_URL;
+
+  let res: Response;
+  try {
+    res = await fetch(url, init?.body ? {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, ...init.body }),
+    } : undefined);
+  } catch (error) {
+    throw new CanvasApiError(action, null, `canvas-api ${action}: network error`);
+  }
+
+  if (!res.ok) {
+    throw new CanvasApiError(action, res.status, `canvas-api ${action} failed with ${res.status}`);
+  }
+
+  const parsed = schema.safeParse(await res.json().catch(() => undefined));
+  if (!parsed.success) {
+    throw new CanvasApiError(action, res.status, `canvas-api ${action}: unexpected response (${parsed.error.message})`);
+  }
+  return parsed.data;
+};
+
+// Rows saved before the `data` column existed only carry the legacy columns.
+const rowToObject = (row: z.infer<typeof objectRowSchema>): unknown => row.data ?? ({
+  id: row.object_id,
+  type: row.type,
+  x: row.x,
+  y: row.y,
+  width: row.width,
+  height: row.height,
+  text: row.text,
+  color: row.color,
+});
+
+export const listProjects = async (): Promise<Project[]> => {
+  const data = await request('list', listResponseSchema);
+  return data.projects;
+};
+
+export const getProject = async (projectId: number): Promise<{
+  project: Project | null;
+  objects: CanvasObject[];
+  quarantined: QuarantinedObject[];
+}> => {
+  const data = await request('get', getResponseSchema, { query: { project_id: String(projectId) } });
+  if (!data.project) return { project: null, objects: [], quarantined: [] };
+  return { project: data.project, ...loadObjects(data.project.schema_version, data.objects.map(rowToObject)) };
+};
+
+export const createProject = async (name: string): Promise<number> => {
+  const data = await request('create_project', projectIdResponseSchema, { body: { name } });
+  return data.project_id;
+};
+
+// Resolves with the project's new `updated_at`, which later saves use to
+// detect that someone else changed the board in the meantime.
+export const saveObjects = async (
+  projectId: number,
+  objects: CanvasObject[],
+  baseUpdatedAt: string | null = null,
+): Promise<string | null> => {
+  const data = await request('save_objects', updateResponseSchema, {
+    body: { project_id: projectId, objects, base_updated_at: baseUpdatedAt, schema_version: CURRENT_SCHEMA_VERSION },
+  });
+  return data.updated_at ?? null;
+};
+
+export const renameProject = async (projectId: number, name: string): Promise<string | null> => {
+  const data = await request('rename_project', updateResponseSchema, { body: { project_id: projectId, name } });
+  return data.updated_at ?? null;
+};
+
+export const duplicateProject = async (projectId: number): Promise<number> => {
+  const data = await request('duplicate_project', projectIdResponseSchema, { body: { project_id: projectId } });
+  return data.project_id;
+};
+
+export const deleteProject = async (projectId: number): Promise<void> => {
+  await request('delete_project', successResponseSchema, { body: { project_id: projectId } });
+};
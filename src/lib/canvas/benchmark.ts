@@ -0,0 +1,40 @@
+import { updateConnectors } from './connectors';
+import type { CanvasObject } from './types';
+
+// A large generated board for trying the editor at scale: open the draft
+// board with `?benchmark=10000` in development. Mostly sticky notes in a grid,
+// with a shape and a connector between neighbours mixed in every so often.
+
+const CELL = 200;
+const COLORS = ['#8B5CF6', '#0EA5E9', '#F97316', '#10B981', '#F59E0B', '#EC4899'];
+
+export const createBenchmarkBoard = (count = 10000): CanvasObject[] => {
+  const columns = Math.ceil(Math.sqrt(count));
+  const objects: CanvasObject[] = [];
+  for (let i = 0; objects.length < count; i++) {
+    const x = (i % columns) * CELL;
+    const y = Math.floor(i / columns) * CELL;
+    const id = `benchmark-${i}`;
+    if (i % 10 === 9) {
+      objects.push({ id, type: i % 20 === 9 ? 'circle' : 'rectangle', x, y, width: 150, height: 100, color: '#0EA5E9', text: '' });
+    } else {
+      objects.push({ id, type: 'sticky', x, y, width: 150, height: 150, color: COLORS[i % COLORS.length], text: `Note ${i + 1}` });
+    }
+    // Every so often, an arrow from the previous cell to this one.
+    if (i % 25 === 24 && i % columns !== 0 && objects.length < count) {
+      objects.push({
+        id: `${id}-arrow`,
+        type: 'arrow',
+        x: x - CELL,
+        y,
+        x2: x,
+        y2: y,
+        color: '#1F2937',
+        startBinding: { objectId: `benchmark-${i - 1}`, anchor: 'right' },
+        endBinding: { objectId: id, anchor: 'left' },
+      });
+    }
+  }
+  // Settles the arrows on the sides they are bound to.
+  return updateConnectors(objects);
+};
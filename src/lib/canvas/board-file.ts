@@ -0,0 +1,88 @@
+import { DocumentError, loadDocument } from './document';
+import { boardFileSchema } from './schemas';
+import type { BoardDocument, BoardSettings, QuarantinedObject, Template } from './types';
+
+export const BOARD_FILE_EXTENSION = '.canvas.json';
+
+const BOARD_FILE_FORMAT = 'canvas-board';
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+const DEFAULT_SETTINGS: BoardSettings = { showGrid: true };
+
+/** A self-contained board export: everything needed to recreate it elsewhere. */
+export interface BoardFile {
+  format: typeof BOARD_FILE_FORMAT;
+  exportedAt: string;
+  document: BoardDocument;
+  settings: BoardSettings;
+  templates: Template[];
+}
+
+export interface ParsedBoardFile {
+  fileName: string;
+  document: BoardDocument;
+  settings: BoardSettings;
+  templates: Template[];
+  /** Invalid objects from the board and its templates. */
+  quarantined: QuarantinedObject[];
+  /** Schema version the board was written with, for "upgraded from" notices. */
+  migratedFrom: number;
+}
+
+export const createBoardFile = (document: BoardDocument, settings: BoardSettings, templates: Template[]): BoardFile => ({
+  format: BOARD_FILE_FORMAT,
+  exportedAt: new Date().toISOString(),
+  document,
+  settings,
+  templates,
+});
+
+const fileNameFor = (name: string | null) => {
+  const slug = (name ?? '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'board'}${BOARD_FILE_EXTENSION}`;
+};
+
+export const downloadBoardFile = (file: BoardFile) => {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileNameFor(file.document.board.name);
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * Reads and validates a board file, migrating the board and its templates to
+ * the current schema. Throws a `DocumentError` with a user-facing message when
+ * the file cannot be used at all; invalid objects are only quarantined.
+ */
+export const readBoardFile = async (file: File): Promise<ParsedBoardFile> => {
+  if (file.size > MAX_FILE_SIZE) throw new DocumentError('File is too large to be a board');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch (error) {
+    throw new DocumentError('File is not valid JSON');
+  }
+
+  const parsed = boardFileSchema.safeParse(json);
+  if (!parsed.success) throw new DocumentError('File is not a board file');
+
+  const board = loadDocument(parsed.data.document);
+  const quarantined = [...board.quarantined];
+  const templates = (parsed.data.templates ?? []).map((template) => {
+    const loaded = loadDocument(template.document);
+    quarantined.push(...loaded.quarantined);
+    return { id: template.id, name: template.name, document: loaded.document };
+  });
+
+  return {
+    fileName: file.name,
+    document: board.document,
+    settings: { ...DEFAULT_SETTINGS, ...parsed.data.settings },
+    templates,
+    quarantined,
+    migratedFrom: board.migratedFrom,
+  };
+};
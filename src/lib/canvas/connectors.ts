@@ -0,0 +1,185 @@
+import { containsPoint } from './geometry';
+import { getObjectCenter, isEditable, isPointBased, rotatePoint, type Point } from './objects';
+import type { CanvasObject, ConnectorAnchor, ConnectorBinding } from './types';
+
+// Lines and arrows can be attached to shapes at either end. A bound end is
+// not stored anywhere else: after every change the board goes through
+// `syncConnectors`, which puts each bound end back on its shape.
+
+export const CONNECTOR_ANCHORS: ConnectorAnchor[] = ['center', 'top', 'right', 'bottom', 'left'];
+
+/** How close to a side's anchor a connector end has to be dropped to attach there instead of the centre. */
+export const ANCHOR_SNAP_DISTANCE = 16;
+
+/** Outward direction of each side anchor, before the shape's rotation. */
+export const SIDE_DIRECTIONS: Record<Exclude<ConnectorAnchor, 'center'>, Point> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+};
+
+export const isConnector = (obj: CanvasObject) => obj.type === 'line' || obj.type === 'arrow';
+
+/** Connectors attach to boxes; other lines and pen strokes have no outline to attach to. */
+export const canBindTo = (obj: CanvasObject) => !isPointBased(obj);
+
+// How far along `direction` (in the shape's own, unrotated frame, from its
+// centre) the outline is, as a multiple of `direction`.
+const outlineDistance = (shape: CanvasObject, direction: Point) => {
+  const hw = (shape.width ?? 0) / 2;
+  const hh = (shape.height ?? 0) / 2;
+  const dx = Math.abs(direction.x);
+  // The triangle's apex is at the top unless it is flipped upside down.
+  const dy = shape.flipY ? -direction.y : direction.y;
+
+  switch (shape.type) {
+    case 'circle':
+      return 1 / Math.hypot(dx / hw, dy / hh);
+    case 'diamond':
+      return 1 / (dx / hw + Math.abs(dy) / hh);
+    case 'triangle': {
+      const base = dy > 0 ? hh / dy : Infinity;
+      const sides = 2 * hh * dx - hw * dy;
+      return Math.min(base, sides > 0 ? (hw * hh) / sides : Infinity);
+    }
+    default:
+      return Math.min(dx > 0 ? hw / dx : Infinity, dy !== 0 ? hh / Math.abs(dy) : Infinity);
+  }
+};
+
+// The point where a ray from the shape's centre crosses its outline.
+const pointOnOutline = (shape: CanvasObject, direction: Point): Point => {
+  const center = getObjectCenter(shape);
+  const local = shape.rotation ? rotatePoint(direction, { x: 0, y: 0 }, -shape.rotation) : direction;
+  if (local.x === 0 && local.y === 0) return center;
+  const distance = outlineDistance(shape, local);
+  if (!Number.isFinite(distance)) return center;
+  return { x: center.x + direction.x * distance, y: center.y + direction.y * distance };
+};
+
+/** Where `anchor` is on the board: the shape's centre, or where its outline meets the middle of a side. */
+export const getAnchorPoint = (shape: CanvasObject, anchor: ConnectorAnchor): Point => {
+  if (anchor === 'center') return getObjectCenter(shape);
+  const direction = shape.rotation
+    ? rotatePoint(SIDE_DIRECTIONS[anchor], { x: 0, y: 0 }, shape.rotation)
+    : SIDE_DIRECTIONS[anchor];
+  return pointOnOutline(shape, direction);
+};
+
+// An end bound to the centre points at it but stops at the outline, on the
+// side facing `toward`.
+const getBoundEnd = (shape: CanvasObject, binding: ConnectorBinding, toward: Point) => {
+  if (binding.anchor !== 'center') return getAnchorPoint(shape, binding.anchor);
+  const center = getObjectCenter(shape);
+  return pointOnOutline(shape, { x: toward.x - center.x, y: toward.y - center.y });
+};
+
+/**
+ * The shape a connector end dropped at `point` attaches to: the topmost
+ * editable box under it (or with a side anchor close by), at the nearest
+ * side anchor within snapping distance or else its centre.
+ */
+export const findBinding = (objects: CanvasObject[], point: Point): ConnectorBinding | null => {
+  for (const obj of [...objects].reverse()) {
+    if (!isEditable(obj) || !canBindTo(obj)) continue;
+    const sides = CONNECTOR_ANCHORS.filter((anchor) => anchor !== 'center')
+      .map((anchor) => {
+        const position = getAnchorPoint(obj, anchor);
+        return { anchor, distance: Math.hypot(point.x - position.x, point.y - position.y) };
+      })
+      .filter(({ distance }) => distance <= ANCHOR_SNAP_DISTANCE)
+      .sort((a, b) => a.distance - b.distance);
+    if (sides.length > 0) return { objectId: obj.id, anchor: sides[0].anchor };
+    if (containsPoint(obj, point)) return { objectId: obj.id, anchor: 'center' };
+  }
+  return null;
+};
+
+/**
+ * Puts every bound connector end back on its shape. Bindings to shapes that
+ * are gone (or can no longer be attached to) are dropped and the end stays
+ * where it is.
+ */
+export const updateConnectors = (objects: CanvasObject[]) => {
+  const connectors = objects.filter((obj) => obj.startBinding || obj.endBinding);
+  if (connectors.length === 0) return objects;
+  // Only the shapes something is bound to, so large boards stay cheap to update.
+  const boundIds = new Set(connectors.flatMap((obj) => [obj.startBinding?.objectId, obj.endBinding?.objectId]));
+  const byId = new Map(objects.filter((obj) => boundIds.has(obj.id)).map((obj) => [obj.id, obj]));
+  const shapeOf = (binding: ConnectorBinding | undefined) => {
+    const shape = binding && byId.get(binding.objectId);
+    return shape && canBindTo(shape) ? shape : undefined;
+  };
+
+  return objects.map((obj) => {
+    if (!obj.startBinding && !obj.endBinding) return obj;
+    const startShape = shapeOf(obj.startBinding);
+    const endShape = shapeOf(obj.endBinding);
+    // Each end aims at its nearest waypoint, else at the other end's anchor
+    // (or the other end itself when that is free).
+    const startTarget = startShape ? getAnchorPoint(startShape, obj.startBinding!.anchor) : { x: obj.x, y: obj.y };
+    const endTarget = endShape
+      ? getAnchorPoint(endShape, obj.endBinding!.anchor)
+      : { x: obj.x2 ?? obj.x, y: obj.y2 ?? obj.y };
+    const waypoints = obj.waypoints ?? [];
+    const start = startShape ? getBoundEnd(startShape, obj.startBinding!, waypoints[0] ?? endTarget) : startTarget;
+    const end = endShape ? getBoundEnd(endShape, obj.endBinding!, waypoints[waypoints.length - 1] ?? startTarget) : endTarget;
+
+    const unchanged = start.x === obj.x && start.y === obj.y && end.x === obj.x2 && end.y === obj.y2;
+    if (unchanged && !!startShape === !!obj.startBinding && !!endShape === !!obj.endBinding) return obj;
+    return {
+      ...obj,
+      x: start.x,
+      y: start.y,
+      x2: end.x,
+      y2: end.y,
+      startBinding: startShape ? obj.startBinding : undefined,
+      endBinding: endShape ? obj.endBinding : undefined,
+    };
+  });
+};
+
+// The objects that differ between `before` and `after`, mapped to what they
+// were (undefined for new ones). A drag or edit leaves the list in the same
+// order, so this is usually a single pass without building a lookup of the
+// whole board.
+const getChanges = (before: CanvasObject[], after: CanvasObject[]) => {
+  const changes = new Map<string, CanvasObject | undefined>();
+  if (before.length === after.length && after.every((obj, i) => obj.id === before[i].id)) {
+    after.forEach((obj, i) => {
+      if (obj !== before[i]) changes.set(obj.id, before[i]);
+    });
+    return changes;
+  }
+  const previous = new Map(before.map((obj) => [obj.id, obj]));
+  after.forEach((obj) => {
+    if (previous.get(obj.id) !== obj) changes.set(obj.id, previous.get(obj.id));
+    previous.delete(obj.id);
+  });
+  previous.forEach((obj, id) => changes.set(id, obj));
+  return changes;
+};
+
+// A connector that was moved while the shape it is bound to stayed where it
+// was has been dragged away from that shape, so that end lets go.
+const detachMovedConnectors = (before: CanvasObject[], after: CanvasObject[]) => {
+  const changes = getChanges(before, after);
+  if (changes.size === 0) return after;
+  const keep = (binding: ConnectorBinding | undefined) => (binding && changes.has(binding.objectId) ? binding : undefined);
+
+  return after.map((obj) => {
+    const old = changes.get(obj.id);
+    if (!old || (!obj.startBinding && !obj.endBinding)) return obj;
+    if (old.x === obj.x && old.y === obj.y && old.x2 === obj.x2 && old.y2 === obj.y2) return obj;
+    return { ...obj, startBinding: keep(obj.startBinding), endBinding: keep(obj.endBinding) };
+  });
+};
+
+/**
+ * Brings connectors in line with a change from `before` to `after`: ends
+ * dragged off their shapes are detached, and every other bound end follows
+ * its shape.
+ */
+export const syncConnectors = (before: CanvasObject[], after: CanvasObject[]) =>
+  updateConnectors(detachMovedConnectors(before, after));
@@ -0,0 +1,116 @@
+import { boardDocumentSchema, drawableObjectSchema } from './schemas';
+import type { BoardDocument, BoardMetadata, CanvasObject, QuarantinedObject } from './types';
+
+export const CURRENT_SCHEMA_VERSION = 1;
+
+export class DocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+/** A document on its way to the current version; objects are still unchecked. */
+interface RawDocument {
+  schemaVersion: number;
+  board: BoardMetadata;
+  objects: unknown[];
+}
+
+export interface LoadedDocument {
+  document: BoardDocument;
+  quarantined: QuarantinedObject[];
+  migratedFrom: number;
+}
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Rows read from the legacy columns use `null` for fields an object does not have.
+const stripNulls = (value: unknown) =>
+  isPlainObject(value) ? Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null)) : value;
+
+/** Each entry upgrades a document from that version to the next one. */
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  // Version 0 is everything saved before documents were versioned: bare
+  // object arrays in localStorage templates, server rows and local copies.
+  0: (doc) => ({ ...doc, schemaVersion: 1, objects: doc.objects.map(stripNulls) }),
+};
+
+const toRawDocument = (input: unknown): RawDocument => {
+  if (Array.isArray(input)) {
+    return { schemaVersion: 0, board: { name: null }, objects: input };
+  }
+  if (isPlainObject(input) && input.schemaVersion === undefined && Array.isArray(input.objects)) {
+    return {
+      schemaVersion: 0,
+      board: { name: typeof input.name === 'string' ? input.name : null },
+      objects: input.objects,
+    };
+  }
+  const parsed = boardDocumentSchema.safeParse(input);
+  if (!parsed.success) throw new DocumentError('Not a board document');
+  return parsed.data;
+};
+
+const describeIssues = (issues: { path: (string | number)[]; message: string }[]) =>
+  issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+
+/** Splits raw objects into renderable ones and the ones to quarantine. */
+export const validateObjects = (values: unknown[]) => {
+  const objects: CanvasObject[] = [];
+  const quarantined: QuarantinedObject[] = [];
+  const ids = new Set<string>();
+
+  for (const value of values) {
+    const result = drawableObjectSchema.safeParse(value);
+    if (!result.success) {
+      quarantined.push({ value, reason: describeIssues(result.error.issues) });
+    } else if (ids.has(result.data.id)) {
+      quarantined.push({ value, reason: `duplicate id "${result.data.id}"` });
+    } else {
+      ids.add(result.data.id);
+      objects.push(result.data);
+    }
+  }
+
+  return { objects, quarantined };
+};
+
+/**
+ * Reads any stored form of a board, upgrades it to the current schema and
+ * validates every object. Throws a `DocumentError` only when the input is not
+ * a board at all or comes from a newer version of the app.
+ */
+export const loadDocument = (input: unknown): LoadedDocument => {
+  let doc = toRawDocument(input);
+  const migratedFrom = doc.schemaVersion;
+
+  if (doc.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new DocumentError(`Board was saved by a newer version of the app (schema ${doc.schemaVersion})`);
+  }
+  while (doc.schemaVersion < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[doc.schemaVersion];
+    if (!migrate) throw new DocumentError(`No migration from schema version ${doc.schemaVersion}`);
+    doc = migrate(doc);
+  }
+
+  const { objects, quarantined } = validateObjects(doc.objects);
+  return {
+    document: { schemaVersion: CURRENT_SCHEMA_VERSION, board: doc.board, objects },
+    quarantined,
+    migratedFrom,
+  };
+};
+
+/** Shorthand for stores that keep the version next to a bare object list. */
+export const loadObjects = (schemaVersion: number | undefined, objects: unknown[]) => {
+  const { document, quarantined } = loadDocument({ schemaVersion: schemaVersion ?? 0, board: { name: null }, objects });
+  return { objects: document.objects, quarantined };
+};
+
+export const createDocument = (objects: CanvasObject[], board: BoardMetadata = { name: null }): BoardDocument => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  board,
+  objects,
+});
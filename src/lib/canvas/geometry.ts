@@ -0,0 +1,101 @@
+import { getObjectCenter, isEditable, isPointBased, rotatePoint, type Point } from './objects';
+import { getLinePoints } from './paths';
+import { resolveStyle } from './style';
+import type { CanvasObject } from './types';
+
+// Exact hit testing against the shapes as drawn. Boxes are measured in their
+// own frame (rotation and flips undone) with a signed distance to their
+// outline, negative inside; lines and pen strokes by their distance from the
+// path. Everything gets `tolerance` of slack past the stroke so thin lines
+// stay easy to pick.
+
+/** Slack around shapes and strokes, in screen pixels; divide by the zoom for board units. */
+export const HIT_TOLERANCE = 6;
+
+export const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const lengthSq = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * (b.x - a.x)), p.y - (a.y + t * (b.y - a.y)));
+};
+
+const distanceToPolyline = (p: Point, points: Point[]) => {
+  if (points.length === 0) return Infinity;
+  if (points.length === 1) return Math.hypot(p.x - points[0].x, p.y - points[0].y);
+  return Math.min(...points.slice(1).map((point, i) => distanceToSegment(p, points[i], point)));
+};
+
+// Rounded rectangle centred on the origin with half-size `hw` × `hh`.
+const roundedRectDistance = (p: Point, hw: number, hh: number, radius: number) => {
+  const r = Math.min(radius, hw, hh);
+  const qx = Math.abs(p.x) - hw + r;
+  const qy = Math.abs(p.y) - hh + r;
+  return Math.hypot(Math.max(qx, 0), Math.max(qy, 0)) + Math.min(Math.max(qx, qy), 0) - r;
+};
+
+// Ellipse centred on the origin; a close approximation that is exact on the outline.
+const ellipseDistance = (p: Point, rx: number, ry: number) => {
+  const k0 = Math.hypot(p.x / rx, p.y / ry);
+  const k1 = Math.hypot(p.x / (rx * rx), p.y / (ry * ry));
+  return k1 === 0 ? -Math.min(rx, ry) : (k0 * (k0 - 1)) / k1;
+};
+
+const polygonDistance = (p: Point, polygon: Point[]) => {
+  let inside = false;
+  let distance = Infinity;
+  polygon.forEach((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    distance = Math.min(distance, distanceToSegment(p, a, b));
+    if (a.y > p.y !== b.y > p.y && p.x < a.x + ((p.y - a.y) / (b.y - a.y)) * (b.x - a.x)) inside = !inside;
+  });
+  return inside ? -distance : distance;
+};
+
+/** Signed distance from `point` to a box object's outline: negative inside, positive outside. */
+export const getSignedDistance = (obj: CanvasObject, point: Point) => {
+  const center = getObjectCenter(obj);
+  const unrotated = obj.rotation ? rotatePoint(point, center, -obj.rotation) : point;
+  const local = {
+    x: (unrotated.x - center.x) * (obj.flipX ? -1 : 1),
+    y: (unrotated.y - center.y) * (obj.flipY ? -1 : 1),
+  };
+  const hw = (obj.width ?? 0) / 2;
+  const hh = (obj.height ?? 0) / 2;
+
+  switch (obj.type) {
+    case 'circle':
+      return ellipseDistance(local, hw, hh);
+    case 'diamond':
+      return polygonDistance(local, [{ x: 0, y: -hh }, { x: hw, y: 0 }, { x: 0, y: hh }, { x: -hw, y: 0 }]);
+    case 'triangle':
+      return polygonDistance(local, [{ x: 0, y: -hh }, { x: hw, y: hh }, { x: -hw, y: hh }]);
+    default:
+      return roundedRectDistance(local, hw, hh, resolveStyle(obj).cornerRadius);
+  }
+};
+
+const getStrokePoints = (obj: CanvasObject) => (obj.type === 'pen' ? obj.points ?? [] : getLinePoints(obj));
+
+/**
+ * Whether `point` is on the object as drawn. Filled shapes are hit anywhere
+ * inside; shapes without a fill, lines and pen strokes only on their stroke.
+ */
+export const hitTest = (obj: CanvasObject, point: Point, tolerance = HIT_TOLERANCE) => {
+  const style = resolveStyle(obj);
+  if (isPointBased(obj)) return distanceToPolyline(point, getStrokePoints(obj)) <= tolerance + style.strokeWidth / 2;
+
+  const distance = getSignedDistance(obj, point);
+  // Text boxes have no fill but are picked up by the area their text sits in.
+  const filled = !obj.noFill || obj.type === 'text';
+  return filled ? distance <= tolerance : Math.abs(distance) <= tolerance + style.strokeWidth;
+};
+
+/** Whether `point` is within the area a shape encloses, filled or not; lines and pen strokes enclose nothing. */
+export const containsPoint = (obj: CanvasObject, point: Point) => !isPointBased(obj) && getSignedDistance(obj, point) <= 0;
+
+/** The topmost editable object under `point`, if any. */
+export const findObjectAt = (objects: CanvasObject[], point: Point, tolerance = HIT_TOLERANCE) => {
+  for (let i = objects.length - 1; i >= 0; i--) {
+    if (isEditable(objects[i]) && hitTest(objects[i], point, tolerance)) return objects[i];
+  }
+  return undefined;
+};
@@ -0,0 +1,103 @@
+import { createObjectId } from './objects';
+import type { CanvasObject, ConnectorBinding } from './types';
+
+// Groups have no objects of their own: membership is the `groupIds` path on
+// each member, so nesting is just a longer path. The editor works inside a
+// "group path" — the groups the user has entered by double-clicking — and
+// selects whole units one level below it: either a single object or every
+// member of a group.
+
+const pathOf = (obj: CanvasObject) => obj.groupIds ?? [];
+
+export const isInsideGroup = (obj: CanvasObject, groupPath: string[]) => {
+  const path = pathOf(obj);
+  return groupPath.length <= path.length && groupPath.every((id, index) => path[index] === id);
+};
+
+/** The id of the unit `obj` is selected as: its group one level below `groupPath`, or itself. */
+export const getUnitId = (obj: CanvasObject, groupPath: string[]) => pathOf(obj)[groupPath.length] ?? obj.id;
+
+/** Whether `obj` belongs to a group below `groupPath`, i.e. double-clicking it enters a group. */
+export const isGroupedBelow = (obj: CanvasObject, groupPath: string[]) => pathOf(obj).length > groupPath.length;
+
+/** Every id of the objects making up the units that contain `ids`. */
+export const expandToUnits = (objects: CanvasObject[], ids: string[], groupPath: string[]) => {
+  const idSet = new Set(ids);
+  const units = new Set(
+    objects.filter((obj) => idSet.has(obj.id) && isInsideGroup(obj, groupPath)).map((obj) => getUnitId(obj, groupPath)),
+  );
+  return objects
+    .filter((obj) => isInsideGroup(obj, groupPath) && units.has(getUnitId(obj, groupPath)))
+    .map((obj) => obj.id);
+};
+
+export const countUnits = (objects: CanvasObject[], groupPath: string[]) =>
+  new Set(objects.map((obj) => getUnitId(obj, groupPath))).size;
+
+/**
+ * Puts the selected units into a new group nested inside `groupPath`.
+ * Returns `null` when fewer than two units are selected.
+ */
+export const groupObjects = (objects: CanvasObject[], selectedIds: Set<string>, groupPath: string[]) => {
+  const members = objects.filter((obj) => selectedIds.has(obj.id) && isInsideGroup(obj, groupPath));
+  if (countUnits(members, groupPath) < 2) return null;
+
+  const groupId = createObjectId();
+  const depth = groupPath.length;
+  const grouped = objects.map((obj) => {
+    if (!members.includes(obj)) return obj;
+    const path = pathOf(obj);
+    return { ...obj, groupIds: [...path.slice(0, depth), groupId, ...path.slice(depth)] };
+  });
+  return { objects: grouped, groupId };
+};
+
+/**
+ * Dissolves the groups selected one level below `groupPath`; their members
+ * keep any deeper grouping. Returns `null` when no group is selected.
+ */
+export const ungroupObjects = (objects: CanvasObject[], selectedIds: Set<string>, groupPath: string[]) => {
+  const depth = groupPath.length;
+  const isMember = (obj: CanvasObject) =>
+    selectedIds.has(obj.id) && isInsideGroup(obj, groupPath) && isGroupedBelow(obj, groupPath);
+  if (!objects.some(isMember)) return null;
+
+  return objects.map((obj) => {
+    if (!isMember(obj)) return obj;
+    const path = pathOf(obj);
+    const groupIds = [...path.slice(0, depth), ...path.slice(depth + 1)];
+    const { groupIds: _removed, ...rest } = obj;
+    return groupIds.length > 0 ? { ...rest, groupIds } : rest;
+  });
+};
+
+/**
+ * Fresh ids for copies, so pasted objects form their own groups instead of
+ * joining the originals. The copies go inside `groupPath`, the groups being
+ * pasted into, whose ids are kept. Connectors stay attached to shapes copied
+ * with them and let go of the rest.
+ */
+export const cloneWithNewIds = (objects: CanvasObject[], groupPath: string[] = []) => {
+  const groupIdMap = new Map<string, string>();
+  const remap = (id: string) => {
+    if (!groupIdMap.has(id)) groupIdMap.set(id, createObjectId());
+    return groupIdMap.get(id)!;
+  };
+  const objectIdMap = new Map(objects.map((obj) => [obj.id, createObjectId()]));
+  const rebind = (binding: ConnectorBinding | undefined) => {
+    const objectId = binding && objectIdMap.get(binding.objectId);
+    return binding && objectId ? { ...binding, objectId } : undefined;
+  };
+  return objects.map((obj) => {
+    const inner = isInsideGroup(obj, groupPath) ? pathOf(obj).slice(groupPath.length) : pathOf(obj);
+    const { groupIds: _removed, ...rest } = obj;
+    const groupIds = [...groupPath, ...inner.map(remap)];
+    return {
+      ...rest,
+      id: objectIdMap.get(obj.id)!,
+      ...(groupIds.length > 0 && { groupIds }),
+      ...(obj.startBinding && { startBinding: rebind(obj.startBinding) }),
+      ...(obj.endBinding && { endBinding: rebind(obj.endBinding) }),
+    };
+  });
+};
@@ -0,0 +1,92 @@
+import type { Point } from './objects';
+import type { ArrowheadStyle, CanvasObject, LineLabel } from './types';
+
+// Editing a line or arrow point by point. Its control points are its start,
+// its waypoints in order and its end; `index` below counts along that list.
+
+/** Shift-dragging a line point keeps the segment at a multiple of this many degrees. */
+export const LINE_ANGLE_SNAP = 15;
+
+export const ARROWHEAD_STYLES: ArrowheadStyle[] = ['none', 'triangle', 'open', 'diamond', 'circle', 'bar'];
+
+/**
+ * The outline of each head as SVG path data, in units of the line's stroke
+ * width and pointing along +x; (`refX`, 3) is the point that sits on the end
+ * of the line. Open heads are stroked one unit wide, the others filled.
+ */
+export const ARROWHEAD_SHAPES: Record<Exclude<ArrowheadStyle, 'none'>, { refX: number; path: string; open?: boolean }> = {
+  triangle: { refX: 9, path: 'M 0 0 L 10 3 L 0 6 Z' },
+  open: { refX: 9, path: 'M 1 0.5 L 9 3 L 1 5.5', open: true },
+  diamond: { refX: 10, path: 'M 0 3 L 5 0 L 10 3 L 5 6 Z' },
+  circle: { refX: 3, path: 'M 0 3 A 3 3 0 1 0 6 3 A 3 3 0 1 0 0 3 Z' },
+  bar: { refX: 0.75, path: 'M 0 0 H 1.5 V 6 H 0 Z' },
+};
+
+// An arrow points at its end; a plain line has no heads.
+const defaultArrowhead = (obj: CanvasObject, end: 'start' | 'end'): ArrowheadStyle =>
+  end === 'end' && obj.type === 'arrow' ? 'triangle' : 'none';
+
+export const getArrowheads = (obj: CanvasObject): { start: ArrowheadStyle; end: ArrowheadStyle } => ({
+  start: obj.startArrowhead ?? defaultArrowhead(obj, 'start'),
+  end: obj.endArrowhead ?? defaultArrowhead(obj, 'end'),
+});
+
+/** Sets one end's arrowhead, storing nothing when it matches the default for the object's type. */
+export const setArrowhead = (obj: CanvasObject, end: 'start' | 'end', style: ArrowheadStyle): CanvasObject => {
+  const value = style === defaultArrowhead(obj, end) ? undefined : style;
+  return end === 'start' ? { ...obj, startArrowhead: value } : { ...obj, endArrowhead: value };
+};
+
+export const getControlPoints = (obj: CanvasObject): Point[] => [
+  { x: obj.x, y: obj.y },
+  ...(obj.waypoints ?? []),
+  { x: obj.x2 ?? obj.x, y: obj.y2 ?? obj.y },
+];
+
+export const moveControlPoint = (obj: CanvasObject, index: number, point: Point): CanvasObject => {
+  const last = getControlPoints(obj).length - 1;
+  if (index === 0) return { ...obj, x: point.x, y: point.y };
+  if (index === last) return { ...obj, x2: point.x, y2: point.y };
+  return { ...obj, waypoints: obj.waypoints!.map((p, i) => (i === index - 1 ? point : p)) };
+};
+
+/** Adds a waypoint at `point` on the segment that starts at control point `index`; it becomes point `index + 1`. */
+export const insertWaypoint = (obj: CanvasObject, index: number, point: Point): CanvasObject => {
+  const waypoints = [...(obj.waypoints ?? [])];
+  waypoints.splice(index, 0, point);
+  return { ...obj, waypoints };
+};
+
+export const removeWaypoint = (obj: CanvasObject, index: number): CanvasObject => {
+  const waypoints = (obj.waypoints ?? []).filter((_, i) => i !== index - 1);
+  return { ...obj, waypoints: waypoints.length > 0 ? waypoints : undefined };
+};
+
+/** Moves `point` onto the nearest `LINE_ANGLE_SNAP` direction from `from`, keeping its distance. */
+export const constrainAngle = (from: Point, point: Point): Point => {
+  const distance = Math.hypot(point.x - from.x, point.y - from.y);
+  const step = (LINE_ANGLE_SNAP * Math.PI) / 180;
+  const angle = Math.round(Math.atan2(point.y - from.y, point.x - from.x) / step) * step;
+  return { x: from.x + Math.cos(angle) * distance, y: from.y + Math.sin(angle) * distance };
+};
+
+/** Font size of the labels on lines and arrows. */
+export const LINE_LABEL_FONT_SIZE = 12;
+
+export const addLineLabel = (obj: CanvasObject, position: number): CanvasObject => ({
+  ...obj,
+  labels: [...(obj.labels ?? []), { text: '', position }],
+});
+
+export const updateLineLabel = (obj: CanvasObject, index: number, patch: Partial<LineLabel>): CanvasObject => ({
+  ...obj,
+  labels: (obj.labels ?? []).map((label, i) => (i === index ? { ...label, ...patch } : label)),
+});
+
+/** Drops labels left without text, e.g. one that was added and then never typed into. */
+export const removeEmptyLabels = (obj: CanvasObject): CanvasObject => {
+  if (!obj.labels) return obj;
+  const labels = obj.labels.filter((label) => label.text.trim() !== '');
+  if (labels.length === obj.labels.length) return obj;
+  return { ...obj, labels: labels.length > 0 ? labels : undefined };
+};
@@ -0,0 +1,165 @@
+import { CURRENT_SCHEMA_VERSION, loadObjects } from './document';
+import type { ProjectRecord } from './repository/records';
+import { REMOTE_SCOPE } from './repository/remote';
+import type { CanvasObject, QuarantinedObject } from './types';
+
+const DB_NAME = 'canvas-board';
+const DB_VERSION = 3;
+const BOARDS_STORE = 'boards';
+const PENDING_STORE = 'pending-saves';
+/** Projects of the IndexedDB-only storage backend. */
+const PROJECTS_STORE = 'projects';
+
+/** Key of the scratch board that has not been saved as a project yet. */
+export const DRAFT_KEY = 'draft';
+
+/**
+ * Key of a project's local copy and queued save. Project ids are only unique
+ * within one backend, so keys are namespaced by the repository's `scope`.
+ */
+export const boardKey = (scope: string, projectId: number | null) =>
+  projectId === null ? DRAFT_KEY : `${scope}/project:${projectId}`;
+
+export interface LocalBoard {
+  key: string;
+  projectId: number | null;
+  name: string | null;
+  objects: CanvasObject[];
+  /** Schema version `objects` were written with; missing on copies stored before versioning. */
+  schemaVersion?: number;
+  /** Objects that failed validation, kept on this device until the user discards them. */
+  quarantined?: QuarantinedObject[];
+  /** `updated_at` of the server copy this board was last loaded from or saved to. */
+  serverUpdatedAt: string | null;
+  savedAt: number;
+}
+
+/**
+ * A `save_objects` write that has not reached the server yet. Saves replace
+ * the whole board, so only the latest pending write per project is kept.
+ */
+export interface PendingSave {
+  /** `scope` of the repository the save is for. */
+  scope: string;
+  projectId: number;
+  objects: CanvasObject[];
+  schemaVersion?: number;
+  baseUpdatedAt: string | null;
+  queuedAt: number;
+}
+
+// Before version 3, copies were keyed by project id alone, so boards of
+// different backends could overwrite each other. Only the remote backend
+// wrote them then, so they move under its scope.
+const scopeLegacyCopies = (db: IDBDatabase, tx: IDBTransaction) => {
+  const boards = tx.objectStore(BOARDS_STORE);
+  const boardsReq = boards.getAll();
+  boardsReq.onsuccess = () => {
+    boardsReq.result.forEach((board: LocalBoard) => {
+      if (board.projectId === null) return;
+      boards.delete(board.key);
+      boards.put({ ...board, key: boardKey(REMOTE_SCOPE, board.projectId) });
+    });
+  };
+  const pendingReq = tx.objectStore(PENDING_STORE).getAll();
+  pendingReq.onsuccess = () => {
+    db.deleteObjectStore(PENDING_STORE);
+    const store = db.createObjectStore(PENDING_STORE, { keyPath: 'key' });
+    pendingReq.result.forEach((pending: Omit<PendingSave, 'scope'>) => {
+      store.put({ ...pending, scope: REMOTE_SCOPE, key: boardKey(REMOTE_SCOPE, pending.projectId) });
+    });
+  };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (event) => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(BOARDS_STORE)) db.createObjectStore(BOARDS_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PENDING_STORE)) db.createObjectStore(PENDING_STORE, { keyPath: 'key' });
+        else if (event.oldVersion < 3 && req.transaction) scopeLegacyCopies(db, req.transaction);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const req = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Stored copies are upgraded on every read, so callers only ever see
+// current-schema objects.
+const upgradeBoard = (board: LocalBoard): LocalBoard => {
+  const { objects, quarantined } = loadObjects(board.schemaVersion, board.objects);
+  return { ...board, objects, quarantined: [...(board.quarantined ?? []), ...quarantined] };
+};
+
+const upgradePending = (pending: PendingSave): PendingSave => {
+  const { objects, quarantined } = loadObjects(pending.schemaVersion, pending.objects);
+  if (quarantined.length > 0) console.warn(`Dropped ${quarantined.length} invalid queued object(s)`, quarantined);
+  return { ...pending, objects };
+};
+
+export const getLocalBoard = async (key: string): Promise<LocalBoard | undefined> => {
+  const board = await run<LocalBoard | undefined>(BOARDS_STORE, 'readonly', (store) => store.get(key));
+  return board && upgradeBoard(board);
+};
+
+export const putLocalBoard = async (board: LocalBoard): Promise<void> => {
+  await run(BOARDS_STORE, 'readwrite', (store) => store.put({ ...board, schemaVersion: CURRENT_SCHEMA_VERSION }));
+};
+
+export const deleteLocalBoard = async (key: string): Promise<void> => {
+  await run(BOARDS_STORE, 'readwrite', (store) => store.delete(key));
+};
+
+export const getPendingSave = async (scope: string, projectId: number): Promise<PendingSave | undefined> => {
+  const pending = await run<PendingSave | undefined>(PENDING_STORE, 'readonly', (store) => store.get(boardKey(scope, projectId)));
+  return pending && upgradePending(pending);
+};
+
+export const getPendingSaves = async (scope: string): Promise<PendingSave[]> => {
+  const pending = await run<PendingSave[]>(PENDING_STORE, 'readonly', (store) => store.getAll());
+  return pending.filter((save) => save.scope === scope).map(upgradePending);
+};
+
+export const putPendingSave = async (pending: PendingSave): Promise<void> => {
+  await run(PENDING_STORE, 'readwrite', (store) =>
+    store.put({ ...pending, key: boardKey(pending.scope, pending.projectId), schemaVersion: CURRENT_SCHEMA_VERSION }));
+};
+
+export const deletePendingSave = async (scope: string, projectId: number): Promise<void> => {
+  await run(PENDING_STORE, 'readwrite', (store) => store.delete(boardKey(scope, projectId)));
+};
+
+export const getStoredProjects = async (): Promise<ProjectRecord[]> =>
+  run<ProjectRecord[]>(PROJECTS_STORE, 'readonly', (store) => store.getAll());
+
+export const getStoredProject = async (projectId: number): Promise<ProjectRecord | undefined> =>
+  run<ProjectRecord | undefined>(PROJECTS_STORE, 'readonly', (store) => store.get(projectId));
+
+export const putStoredProject = async (record: ProjectRecord): Promise<void> => {
+  await run(PROJECTS_STORE, 'readwrite', (store) => store.put(record));
+};
+
+export const deleteStoredProject = async (projectId: number): Promise<void> => {
+  await run(PROJECTS_STORE, 'readwrite', (store) => store.delete(projectId));
+};
@@ -0,0 +1,266 @@
+import { getLinePoints } from './paths';
+import type { CanvasObject } from './types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Smallest width or height a transform can shrink a box to. */
+const MIN_OBJECT_SIZE = 1;
+
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se';
+
+export interface TransformModifiers {
+  /** Scale both axes by the same factor (Shift). */
+  keepAspect: boolean;
+  /** Keep the centre in place instead of the opposite side (Alt). */
+  fromCenter: boolean;
+}
+
+let lastObjectId = 0;
+
+// Ids stay timestamp strings like the ones already stored, but several
+// objects created in the same millisecond (a paste) still get distinct ids.
+export const createObjectId = () => {
+  const now = Date.now();
+  lastObjectId = now > lastObjectId ? now : lastObjectId + 1;
+  return lastObjectId.toString();
+};
+
+/** Locked and hidden objects stay on the board but ignore selection and editing. */
+export const isEditable = (obj: CanvasObject) => !obj.locked && !obj.hidden;
+
+// Lines and pen strokes are made of points, so rotating them moves the points;
+// every other object is a box that keeps its `rotation` around its centre.
+export const isPointBased = (obj: CanvasObject) => obj.type === 'line' || obj.type === 'arrow' || obj.type === 'pen';
+
+export const rotatePoint = (point: Point, center: Point, degrees: number): Point => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+/** Keeps angles in [0, 360) so stored rotations do not grow without bound. */
+export const normalizeAngle = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+export const getObjectCenter = (obj: CanvasObject): Point => {
+  if (isPointBased(obj)) {
+    const bounds = getObjectBounds(obj);
+    return { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+  }
+  return { x: obj.x + (obj.width ?? 0) / 2, y: obj.y + (obj.height ?? 0) / 2 };
+};
+
+/** Corners of a box object as drawn, i.e. after its rotation. */
+export const getBoxCorners = (obj: CanvasObject): Point[] => {
+  const width = obj.width ?? 0;
+  const height = obj.height ?? 0;
+  const corners = [
+    { x: obj.x, y: obj.y },
+    { x: obj.x + width, y: obj.y },
+    { x: obj.x + width, y: obj.y + height },
+    { x: obj.x, y: obj.y + height },
+  ];
+  if (!obj.rotation) return corners;
+  const center = { x: obj.x + width / 2, y: obj.y + height / 2 };
+  return corners.map((corner) => rotatePoint(corner, center, obj.rotation!));
+};
+
+const boundsOfPoints = (points: Point[]): Bounds => ({
+  minX: Math.min(...points.map((p) => p.x)),
+  minY: Math.min(...points.map((p) => p.y)),
+  maxX: Math.max(...points.map((p) => p.x)),
+  maxY: Math.max(...points.map((p) => p.y)),
+});
+
+/** Axis-aligned bounds of the object as drawn, rotation included. */
+export const getObjectBounds = (obj: CanvasObject): Bounds => {
+  if (obj.type === 'pen' && obj.points && obj.points.length > 0) {
+    const xs = obj.points.map((p) => p.x);
+    const ys = obj.points.map((p) => p.y);
+    return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+  }
+  if (obj.type === 'line' || obj.type === 'arrow') return boundsOfPoints(getLinePoints(obj));
+  return boundsOfPoints(getBoxCorners(obj));
+};
+
+/** Bounds around all `objects`, or `null` when there are none. */
+export const getCombinedBounds = (objects: CanvasObject[]): Bounds | null => {
+  if (objects.length === 0) return null;
+  const bounds = objects.map(getObjectBounds);
+  return {
+    minX: Math.min(...bounds.map((b) => b.minX)),
+    minY: Math.min(...bounds.map((b) => b.minY)),
+    maxX: Math.max(...bounds.map((b) => b.maxX)),
+    maxY: Math.max(...bounds.map((b) => b.maxY)),
+  };
+};
+
+export const boundsIntersect = (a: Bounds, b: Bounds) =>
+  a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+
+/** Normalises a rectangle dragged from one corner to the opposite one. */
+export const boundsFromPoints = (a: { x: number; y: number }, b: { x: number; y: number }): Bounds => ({
+  minX: Math.min(a.x, b.x),
+  minY: Math.min(a.y, b.y),
+  maxX: Math.max(a.x, b.x),
+  maxY: Math.max(a.y, b.y),
+});
+
+/** A square of `radius` either side of `point`. */
+export const boundsAround = (point: Point, radius: number): Bounds => ({
+  minX: point.x - radius,
+  minY: point.y - radius,
+  maxX: point.x + radius,
+  maxY: point.y + radius,
+});
+
+export const translateObject = (obj: CanvasObject, dx: number, dy: number): CanvasObject => ({
+  ...obj,
+  x: obj.x + dx,
+  y: obj.y + dy,
+  ...(obj.x2 !== undefined && { x2: obj.x2 + dx }),
+  ...(obj.y2 !== undefined && { y2: obj.y2 + dy }),
+  ...(obj.points && { points: obj.points.map((p) => ({ x: p.x + dx, y: p.y + dy })) }),
+  ...(obj.waypoints && { waypoints: obj.waypoints.map((p) => ({ x: p.x + dx, y: p.y + dy })) }),
+});
+
+/**
+ * Works out how dragging `handle` by `dx`/`dy` scales `bounds`: a factor per
+ * axis and the point that stays fixed. Factors go negative when the handle is
+ * dragged past the opposite side, which flips the selection.
+ */
+export const getHandleScale = (
+  bounds: Bounds,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+  { keepAspect, fromCenter }: TransformModifiers,
+) => {
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const horizontal = handle.includes('e') || handle.includes('w');
+  const vertical = handle.includes('n') || handle.includes('s');
+  const factor = fromCenter ? 2 : 1;
+
+  let sx = 1;
+  let sy = 1;
+  if (width > 0 && horizontal) sx = (width + (handle.includes('e') ? dx : -dx) * factor) / width;
+  if (height > 0 && vertical) sy = (height + (handle.includes('s') ? dy : -dy) * factor) / height;
+
+  if (keepAspect) {
+    if (horizontal && vertical) {
+      const scale = Math.max(Math.abs(sx), Math.abs(sy));
+      sx = Math.sign(sx || 1) * scale;
+      sy = Math.sign(sy || 1) * scale;
+    } else if (horizontal) {
+      sy = Math.abs(sx);
+    } else {
+      sx = Math.abs(sy);
+    }
+  }
+
+  // Never collapse an axis completely, or the object could not be scaled back.
+  if (width > 0 && Math.abs(sx) * width < MIN_OBJECT_SIZE) sx = (Math.sign(sx) || 1) * (MIN_OBJECT_SIZE / width);
+  if (height > 0 && Math.abs(sy) * height < MIN_OBJECT_SIZE) sy = (Math.sign(sy) || 1) * (MIN_OBJECT_SIZE / height);
+
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const centerY = (bounds.minY + bounds.maxY) / 2;
+  const anchor = {
+    x: fromCenter || !horizontal ? centerX : handle.includes('e') ? bounds.minX : bounds.maxX,
+    y: fromCenter || !vertical ? centerY : handle.includes('s') ? bounds.minY : bounds.maxY,
+  };
+  return { anchor, sx, sy };
+};
+
+/**
+ * Scales `obj` by `sx`/`sy` around `anchor`. Point geometry is scaled
+ * directly; boxes keep their rotation and record a negative factor as a flip.
+ */
+export const scaleObject = (obj: CanvasObject, anchor: Point, sx: number, sy: number): CanvasObject => {
+  const map = (p: Point) => ({ x: anchor.x + (p.x - anchor.x) * sx, y: anchor.y + (p.y - anchor.y) * sy });
+
+  if (obj.type === 'pen' && obj.points) {
+    const points = obj.points.map(map);
+    return { ...obj, points, x: Math.min(...points.map((p) => p.x)), y: Math.min(...points.map((p) => p.y)) };
+  }
+  if (obj.type === 'line' || obj.type === 'arrow') {
+    const start = map(obj);
+    const end = map({ x: obj.x2 ?? obj.x, y: obj.y2 ?? obj.y });
+    return { ...obj, x: start.x, y: start.y, x2: end.x, y2: end.y, ...(obj.waypoints && { waypoints: obj.waypoints.map(map) }) };
+  }
+
+  const center = map(getObjectCenter(obj));
+  const width = (obj.width ?? 0) * Math.abs(sx);
+  const height = (obj.height ?? 0) * Math.abs(sy);
+  // Mirroring along one axis turns a clockwise rotation into a counter-clockwise one.
+  const mirrored = sx < 0 !== sy < 0;
+  const rotation = obj.rotation && mirrored ? normalizeAngle(-obj.rotation) : obj.rotation;
+  return {
+    ...obj,
+    x: center.x - width / 2,
+    y: center.y - height / 2,
+    width,
+    height,
+    rotation: rotation || undefined,
+    flipX: (sx < 0 ? !obj.flipX : obj.flipX) || undefined,
+    flipY: (sy < 0 ? !obj.flipY : obj.flipY) || undefined,
+  };
+};
+
+/** Rotates `obj` by `degrees` around `center` (its own centre for single-object rotation). */
+export const rotateObject = (obj: CanvasObject, center: Point, degrees: number): CanvasObject => {
+  if (obj.type === 'pen' && obj.points) {
+    const points = obj.points.map((p) => rotatePoint(p, center, degrees));
+    return { ...obj, points, x: Math.min(...points.map((p) => p.x)), y: Math.min(...points.map((p) => p.y)) };
+  }
+  if (obj.type === 'line' || obj.type === 'arrow') {
+    const turn = (p: Point) => rotatePoint(p, center, degrees);
+    const start = turn(obj);
+    const end = turn({ x: obj.x2 ?? obj.x, y: obj.y2 ?? obj.y });
+    return { ...obj, x: start.x, y: start.y, x2: end.x, y2: end.y, ...(obj.waypoints && { waypoints: obj.waypoints.map(turn) }) };
+  }
+  const width = obj.width ?? 0;
+  const height = obj.height ?? 0;
+  const newCenter = rotatePoint(getObjectCenter(obj), center, degrees);
+  const rotation = normalizeAngle((obj.rotation ?? 0) + degrees);
+  return { ...obj, x: newCenter.x - width / 2, y: newCenter.y - height / 2, rotation: rotation || undefined };
+};
+
+/**
+ * Resizes a single box by dragging one of its handles. The drag is measured
+ * along the box's own (rotated) axes, so rotated boxes keep their shape.
+ */
+export const resizeObject = (
+  obj: CanvasObject,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+  modifiers: TransformModifiers,
+): CanvasObject => {
+  const rotation = obj.rotation ?? 0;
+  const center = getObjectCenter(obj);
+  const local = rotatePoint({ x: dx, y: dy }, { x: 0, y: 0 }, -rotation);
+  const unrotated = { ...obj, rotation: undefined };
+  const { anchor, sx, sy } = getHandleScale(getObjectBounds(unrotated), handle, local.x, local.y, modifiers);
+  const scaled = scaleObject(unrotated, anchor, sx, sy);
+  // Scaling happened in the box's own frame; turn the result back into place.
+  const newCenter = rotatePoint(getObjectCenter(scaled), center, rotation);
+  return {
+    ...scaled,
+    x: newCenter.x - (scaled.width ?? 0) / 2,
+    y: newCenter.y - (scaled.height ?? 0) / 2,
+    rotation: obj.rotation,
+  };
+};
@@ -0,0 +1,169 @@
+import { SIDE_DIRECTIONS } from './connectors';
+import type { Point } from './objects';
+import type { CanvasObject, ConnectorAnchor } from './types';
+
+// The course a line or arrow takes from its start, through its waypoints, to
+// its end. Straight lines and elbows are polylines; a curve is a chain of
+// cubic Béziers, flattened into short segments wherever a polyline is needed
+// (bounds, hit testing).
+
+const CURVE_SEGMENTS = 16;
+
+type Cubic = [Point, Point, Point, Point];
+
+type Route = { kind: 'polyline'; points: Point[] } | { kind: 'curve'; segments: Cubic[] };
+
+const isHorizontalAnchor = (anchor: ConnectorAnchor | undefined) => anchor === 'left' || anchor === 'right';
+const isVerticalAnchor = (anchor: ConnectorAnchor | undefined) => anchor === 'top' || anchor === 'bottom';
+
+// An end bound to a side leaves (or enters) across that side; a free end or
+// one bound to a centre follows whichever axis the line mostly runs along.
+const leavesHorizontally = (anchor: ConnectorAnchor | undefined, dx: number, dy: number) => {
+  if (isHorizontalAnchor(anchor)) return true;
+  if (isVerticalAnchor(anchor)) return false;
+  return Math.abs(dx) >= Math.abs(dy);
+};
+
+/** Shortest distance a curve leaves a side before bending, so it never starts back into its shape. */
+const MIN_CURVE_REACH = 30;
+
+// A curve leaves each end halfway towards the other end along its axis, or
+// straight out of the side it is bound to.
+const getControlPoint = (from: Point, anchor: ConnectorAnchor | undefined, dx: number, dy: number, horizontal: boolean) => {
+  const along = horizontal ? dx : dy;
+  if (anchor && anchor !== 'center') {
+    const direction = SIDE_DIRECTIONS[anchor];
+    const reach = Math.max(Math.abs(along) / 2, MIN_CURVE_REACH);
+    return { x: from.x + direction.x * reach, y: from.y + direction.y * reach };
+  }
+  return horizontal ? { x: from.x + along / 2, y: from.y } : { x: from.x, y: from.y + along / 2 };
+};
+
+// One leg of an elbow route: out along one axis, across, and in along the
+// same axis, or with a single corner when the two ends face different ways.
+const getElbowLeg = (from: Point, to: Point, fromAnchor?: ConnectorAnchor, toAnchor?: ConnectorAnchor): Point[] => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const fromHorizontal = leavesHorizontally(fromAnchor, dx, dy);
+  const toHorizontal = toAnchor ? leavesHorizontally(toAnchor, dx, dy) : fromHorizontal;
+  if (fromHorizontal !== toHorizontal) {
+    return [fromHorizontal ? { x: to.x, y: from.y } : { x: from.x, y: to.y }, to];
+  }
+  return fromHorizontal
+    ? [{ x: from.x + dx / 2, y: from.y }, { x: from.x + dx / 2, y: to.y }, to]
+    : [{ x: from.x, y: from.y + dy / 2 }, { x: to.x, y: from.y + dy / 2 }, to];
+};
+
+const getRoute = (obj: CanvasObject): Route => {
+  const start = { x: obj.x, y: obj.y };
+  const end = { x: obj.x2 ?? obj.x, y: obj.y2 ?? obj.y };
+  const stops = [start, ...(obj.waypoints ?? []), end];
+  const last = stops.length - 2;
+  const startAnchor = obj.startBinding?.anchor;
+  const endAnchor = obj.endBinding?.anchor;
+
+  if (obj.routing === 'elbow') {
+    const legs = stops.slice(1).flatMap((to, i) =>
+      getElbowLeg(stops[i], to, i === 0 ? startAnchor : undefined, i === last ? endAnchor : undefined),
+    );
+    return { kind: 'polyline', points: [start, ...legs] };
+  }
+
+  if (obj.routing === 'curved') {
+    if (stops.length === 2) {
+      const dx = end.x - start.x;
+      const dy = end.y - start.y;
+      const startHorizontal = leavesHorizontally(startAnchor, dx, dy);
+      const endHorizontal = obj.endBinding ? leavesHorizontally(endAnchor, dx, dy) : startHorizontal;
+      const c1 = getControlPoint(start, startAnchor, dx, dy, startHorizontal);
+      const c2 = getControlPoint(end, endAnchor, -dx, -dy, endHorizontal);
+      return { kind: 'curve', segments: [[start, c1, c2, end]] };
+    }
+    // Through the waypoints as a Catmull-Rom spline; the ends leave their sides as above.
+    const segments = stops.slice(1).map((to, i): Cubic => {
+      const from = stops[i];
+      const before = stops[i - 1] ?? from;
+      const after = stops[i + 2] ?? to;
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const c1 = i === 0 && startAnchor && startAnchor !== 'center'
+        ? getControlPoint(from, startAnchor, dx, dy, isHorizontalAnchor(startAnchor))
+        : { x: from.x + (to.x - before.x) / 6, y: from.y + (to.y - before.y) / 6 };
+      const c2 = i === last && endAnchor && endAnchor !== 'center'
+        ? getControlPoint(to, endAnchor, -dx, -dy, isHorizontalAnchor(endAnchor))
+        : { x: to.x - (after.x - from.x) / 6, y: to.y - (after.y - from.y) / 6 };
+      return [from, c1, c2, to];
+    });
+    return { kind: 'curve', segments };
+  }
+
+  return { kind: 'polyline', points: stops };
+};
+
+const cubicAt = ([p0, p1, p2, p3]: Cubic, t: number): Point => {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+  };
+};
+
+/** The points a line or arrow passes through, in order; curves come back as short straight segments. */
+export const getLinePoints = (obj: CanvasObject): Point[] => {
+  const route = getRoute(obj);
+  if (route.kind === 'polyline') return route.points;
+  return [
+    route.segments[0][0],
+    ...route.segments.flatMap((segment) =>
+      Array.from({ length: CURVE_SEGMENTS }, (_, i) => cubicAt(segment, (i + 1) / CURVE_SEGMENTS)),
+    ),
+  ];
+};
+
+/** SVG path data for a line or arrow, drawn relative to `origin`. */
+export const getLinePathData = (obj: CanvasObject, origin: Point = { x: 0, y: 0 }) => {
+  const route = getRoute(obj);
+  const format = (p: Point) => `${p.x - origin.x} ${p.y - origin.y}`;
+  if (route.kind === 'polyline') {
+    const [first, ...rest] = route.points;
+    return `M ${format(first)} ${rest.map((p) => `L ${format(p)}`).join(' ')}`;
+  }
+  const curves = route.segments.map(([, c1, c2, to]) => `C ${format(c1)}, ${format(c2)}, ${format(to)}`);
+  return `M ${format(route.segments[0][0])} ${curves.join(' ')}`;
+};
+
+// Each point of the flattened path with the distance travelled to reach it.
+const measureLine = (obj: CanvasObject) => {
+  const points = getLinePoints(obj);
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  return { points, distances, length: distances[distances.length - 1] };
+};
+
+/** The point `position` of the way along a line or arrow (0 at its start, 1 at its end), measured along its path. */
+export const getPointAlongLine = (obj: CanvasObject, position: number): Point => {
+  const { points, distances, length } = measureLine(obj);
+  const target = Math.max(0, Math.min(1, position)) * length;
+  const i = distances.findIndex((distance) => distance >= target);
+  if (i <= 0) return points[0];
+  const t = (target - distances[i - 1]) / (distances[i] - distances[i - 1]);
+  return { x: points[i - 1].x + (points[i].x - points[i - 1].x) * t, y: points[i - 1].y + (points[i].y - points[i - 1].y) * t };
+};
+
+/** The position along a line or arrow (0 to 1) of the point on it closest to `point`. */
+export const getNearestLinePosition = (obj: CanvasObject, point: Point) => {
+  const { points, distances, length } = measureLine(obj);
+  if (length === 0) return 0;
+  let best = { distance: Infinity, along: 0 };
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const segment = distances[i] - distances[i - 1];
+    const t = segment === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / segment ** 2));
+    const distance = Math.hypot(point.x - (a.x + (b.x - a.x) * t), point.y - (a.y + (b.y - a.y) * t));
+    if (distance < best.distance) best = { distance, along: distances[i - 1] + segment * t };
+  }
+  return best.along / length;
+};
@@ -0,0 +1,134 @@
+import { getObjectBounds, isPointBased, normalizeAngle, scaleObject, translateObject } from './objects';
+import { MAX_CORNER_RADIUS, MAX_STROKE_WIDTH, hasCornerRadius, resolveStyle } from './style';
+import { DEFAULT_FONT_SIZE, MAX_FONT_SIZE, MIN_FONT_SIZE, canHaveText, setTextStyle } from './text';
+import type { CanvasObject } from './types';
+
+// The numeric fields of the properties inspector. Each one knows which
+// objects it applies to and how to read and write it, so a multi-selection
+// can show a shared value and apply an edit to every object alike.
+
+export interface NumericProperty {
+  key: string;
+  label: string;
+  unit?: string;
+  min?: number;
+  max?: number;
+  applies: (obj: CanvasObject) => boolean;
+  get: (obj: CanvasObject) => number;
+  set: (obj: CanvasObject, value: number) => CanvasObject;
+}
+
+const always = () => true;
+const isBox = (obj: CanvasObject) => !isPointBased(obj);
+
+// Boxes are placed by their own (unrotated) top-left corner and size; lines
+// and pen strokes by the box around their points.
+const frameOf = (obj: CanvasObject) => {
+  if (isBox(obj)) return { x: obj.x, y: obj.y, width: obj.width ?? 0, height: obj.height ?? 0 };
+  const bounds = getObjectBounds(obj);
+  return { x: bounds.minX, y: bounds.minY, width: bounds.maxX - bounds.minX, height: bounds.maxY - bounds.minY };
+};
+
+const resize = (obj: CanvasObject, width: number, height: number) => {
+  if (isBox(obj)) return { ...obj, width, height };
+  const frame = frameOf(obj);
+  // A perfectly straight line has no extent to scale along that axis.
+  const sx = frame.width > 0 ? width / frame.width : 1;
+  const sy = frame.height > 0 ? height / frame.height : 1;
+  return scaleObject(obj, { x: frame.x, y: frame.y }, sx, sy);
+};
+
+export const GEOMETRY_PROPERTIES: NumericProperty[] = [
+  {
+    key: 'x',
+    label: 'X',
+    applies: always,
+    get: (obj) => frameOf(obj).x,
+    set: (obj, value) => translateObject(obj, value - frameOf(obj).x, 0),
+  },
+  {
+    key: 'y',
+    label: 'Y',
+    applies: always,
+    get: (obj) => frameOf(obj).y,
+    set: (obj, value) => translateObject(obj, 0, value - frameOf(obj).y),
+  },
+  {
+    key: 'width',
+    label: 'W',
+    min: 1,
+    applies: always,
+    get: (obj) => frameOf(obj).width,
+    set: (obj, value) => resize(obj, value, frameOf(obj).height),
+  },
+  {
+    key: 'height',
+    label: 'H',
+    min: 1,
+    applies: always,
+    get: (obj) => frameOf(obj).height,
+    set: (obj, value) => resize(obj, frameOf(obj).width, value),
+  },
+  {
+    key: 'rotation',
+    label: 'Rotation',
+    unit: '°',
+    applies: isBox,
+    get: (obj) => obj.rotation ?? 0,
+    set: (obj, value) => ({ ...obj, rotation: normalizeAngle(value) || undefined }),
+  },
+];
+
+export const STYLE_PROPERTIES: NumericProperty[] = [
+  {
+    key: 'strokeWidth',
+    label: 'Stroke width',
+    unit: 'px',
+    min: 0,
+    max: MAX_STROKE_WIDTH,
+    applies: always,
+    get: (obj) => resolveStyle(obj).strokeWidth,
+    set: (obj, value) => ({ ...obj, strokeWidth: value }),
+  },
+  {
+    key: 'opacity',
+    label: 'Opacity',
+    unit: '%',
+    min: 0,
+    max: 100,
+    applies: always,
+    get: (obj) => resolveStyle(obj).opacity * 100,
+    set: (obj, value) => ({ ...obj, opacity: value / 100 }),
+  },
+  {
+    key: 'cornerRadius',
+    label: 'Corner radius',
+    unit: 'px',
+    min: 0,
+    max: MAX_CORNER_RADIUS,
+    applies: hasCornerRadius,
+    get: (obj) => resolveStyle(obj).cornerRadius,
+    set: (obj, value) => ({ ...obj, cornerRadius: value }),
+  },
+];
+
+export const FONT_SIZE_PROPERTY: NumericProperty = {
+  key: 'fontSize',
+  label: 'Size',
+  unit: 'px',
+  min: MIN_FONT_SIZE,
+  max: MAX_FONT_SIZE,
+  applies: canHaveText,
+  get: (obj) => obj.textStyle?.fontSize ?? DEFAULT_FONT_SIZE,
+  set: (obj, value) => setTextStyle(obj, 'fontSize', value === DEFAULT_FONT_SIZE ? undefined : value),
+};
+
+/**
+ * The value every object has in common, or `null` when they differ and the
+ * inspector shows the field as mixed.
+ */
+export const sharedValue = <T>(objects: CanvasObject[], get: (obj: CanvasObject) => T): T | null => {
+  if (objects.length === 0) return null;
+  const first = get(objects[0]);
+  return objects.every((obj) => get(obj) === first) ? first : null;
+};
@@ -0,0 +1,342 @@
+import { ARROWHEAD_SHAPES, LINE_LABEL_FONT_SIZE, getArrowheads } from './lines';
+import { getCombinedBounds, getObjectBounds, getObjectCenter, type Bounds, type Point } from './objects';
+import { getLinePathData, getLinePoints, getPointAlongLine } from './paths';
+import { resolveStyle } from './style';
+import {
+  FONT_FAMILY,
+  LINE_HEIGHT,
+  canHaveText,
+  getTextArea,
+  getTextColor,
+  getTextOffset,
+  layoutText,
+  measure,
+} from './text';
+import type { CanvasObject } from './types';
+
+// Draws objects with the Canvas 2D API, matching the DOM renderer piece for
+// piece: the same resolved styles, text laid out by `layoutText`, and line
+// routes and arrowheads from the same path data. The canvas renderer draws
+// the board with it, and PNG export draws the whole board the same way.
+
+/** How far past its bounds an object's drawing reaches: shadows, strokes, arrowheads and outlines. */
+const RENDER_MARGIN = 40;
+
+export const SELECTION_COLOR = '#8B5CF6';
+export const ERASE_COLOR = '#EF4444';
+
+/** Board background, with and without the grid. */
+export const GRID_BACKGROUND = '#F8F9FA';
+export const PLAIN_BACKGROUND = '#FFFFFF';
+export const GRID_SIZE = 20;
+const GRID_LINE = 'rgba(0, 0, 0, 0.05)';
+
+// Boxes cast a soft shadow below them, like Tailwind's `shadow-lg`.
+const SHADOW = { color: 'rgba(0, 0, 0, 0.1)', blur: 15, offsetY: 10 };
+
+/** How an object is highlighted: selected, or hovered with the given tool colour. */
+export type Highlight = { kind: 'selected' } | { kind: 'hovered'; color: string };
+
+const toDashes = (dashArray: string | undefined) => (dashArray ? dashArray.split(' ').map(Number) : []);
+
+const traceRoundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + width, y, x + width, y + height, r);
+  ctx.arcTo(x + width, y + height, x, y + height, r);
+  ctx.arcTo(x, y + height, x, y, r);
+  ctx.arcTo(x, y, x + width, y, r);
+  ctx.closePath();
+};
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.closePath();
+};
+
+// The shape's outline in its own frame, centred on the origin and shrunk by
+// `inset` where the DOM draws the border inside the box.
+const traceShape = (ctx: CanvasRenderingContext2D, obj: CanvasObject, inset: number) => {
+  const hw = (obj.width ?? 0) / 2;
+  const hh = (obj.height ?? 0) / 2;
+  ctx.beginPath();
+  switch (obj.type) {
+    case 'circle':
+      ctx.ellipse(0, 0, Math.max(0, hw - inset), Math.max(0, hh - inset), 0, 0, Math.PI * 2);
+      break;
+    case 'diamond':
+      tracePolygon(ctx, [{ x: 0, y: -hh }, { x: hw, y: 0 }, { x: 0, y: hh }, { x: -hw, y: 0 }]);
+      break;
+    case 'triangle':
+      tracePolygon(ctx, [{ x: 0, y: -hh }, { x: hw, y: hh }, { x: -hw, y: hh }]);
+      break;
+    default:
+      traceRoundedRect(ctx, -hw + inset, -hh + inset, hw * 2 - inset * 2, hh * 2 - inset * 2, resolveStyle(obj).cornerRadius - inset);
+  }
+};
+
+// Text is drawn upright in the box's rotated frame, with `ctx` at the box's top-left corner.
+const drawText = (ctx: CanvasRenderingContext2D, obj: CanvasObject) => {
+  if (!canHaveText(obj) || !obj.text) return;
+  const style = obj.textStyle ?? {};
+  const area = getTextArea(obj);
+  const layout = layoutText(obj);
+  const top = area.y + getTextOffset(layout, style, area.height);
+  const thickness = Math.max(1, layout.fontSize / 14);
+
+  ctx.font = layout.font;
+  ctx.fillStyle = getTextColor(obj);
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+  layout.lines.forEach((line, index) => {
+    const middle = top + (index + 0.5) * layout.lineHeight;
+    const left = area.x + line.indent;
+    const width = ctx.measureText(line.text).width;
+    const free = area.width - line.indent - width;
+    const x = style.align === 'left' ? left : style.align === 'right' ? left + free : left + free / 2;
+    if (line.bullet) ctx.fillText('•', area.x, middle);
+    ctx.fillText(line.text, x, middle);
+    if (style.underline) ctx.fillRect(x, middle + layout.fontSize * 0.4, width, thickness);
+    if (style.strikethrough) ctx.fillRect(x, middle - thickness / 2, width, thickness);
+  });
+};
+
+const drawBox = (ctx: CanvasRenderingContext2D, obj: CanvasObject, highlight: Highlight | undefined) => {
+  const style = resolveStyle(obj);
+  const center = getObjectCenter(obj);
+  const width = obj.width ?? 0;
+  const height = obj.height ?? 0;
+  // Rectangles and ellipses are bordered inside their box; polygons are stroked along their outline.
+  const isPolygon = obj.type === 'diamond' || obj.type === 'triangle';
+
+  ctx.save();
+  ctx.translate(center.x, center.y);
+  if (obj.rotation) ctx.rotate((obj.rotation * Math.PI) / 180);
+
+  ctx.save();
+  // Flips mirror the drawn shape only, so text stays readable.
+  ctx.scale(obj.flipX ? -1 : 1, obj.flipY ? -1 : 1);
+  if (style.fill !== 'transparent') {
+    traceShape(ctx, obj, 0);
+    ctx.fillStyle = style.fill;
+    if (!isPolygon) {
+      // Shadows ignore the transform, so they are scaled to the zoom by hand.
+      const { a, b } = ctx.getTransform();
+      const scale = Math.hypot(a, b);
+      ctx.shadowColor = SHADOW.color;
+      ctx.shadowBlur = SHADOW.blur * scale;
+      ctx.shadowOffsetY = SHADOW.offsetY * scale;
+    }
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
+  }
+  if (style.strokeWidth > 0) {
+    traceShape(ctx, obj, isPolygon ? 0 : style.strokeWidth / 2);
+    ctx.strokeStyle = style.stroke;
+    ctx.lineWidth = style.strokeWidth;
+    ctx.setLineDash(toDashes(style.dashArray));
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+  ctx.restore();
+
+  ctx.save();
+  ctx.translate(-width / 2, -height / 2);
+  drawText(ctx, obj);
+  ctx.restore();
+
+  // Outlines sit just outside the box, as CSS outlines with a 2px offset do.
+  if (highlight) {
+    const lineWidth = highlight.kind === 'selected' ? 2 : 1;
+    const offset = 2 + lineWidth / 2;
+    ctx.strokeStyle = highlight.kind === 'selected' ? SELECTION_COLOR : highlight.color;
+    ctx.lineWidth = lineWidth;
+    ctx.strokeRect(-width / 2 - offset, -height / 2 - offset, width + offset * 2, height + offset * 2);
+  }
+  ctx.restore();
+};
+
+// The direction a line leaves its end at: along its last stretch of nonzero length.
+const getEndDirection = (points: Point[]) => {
+  const end = points[points.length - 1];
+  for (let i = points.length - 2; i >= 0; i--) {
+    const dx = end.x - points[i].x;
+    const dy = end.y - points[i].y;
+    if (dx !== 0 || dy !== 0) return Math.atan2(dy, dx);
+  }
+  return 0;
+};
+
+const drawArrowhead = (ctx: CanvasRenderingContext2D, style: keyof typeof ARROWHEAD_SHAPES, at: Point, angle: number, width: number) => {
+  const head = ARROWHEAD_SHAPES[style];
+  const path = new Path2D(head.path);
+  ctx.save();
+  ctx.translate(at.x, at.y);
+  ctx.rotate(angle);
+  ctx.scale(width, width);
+  ctx.translate(-head.refX, -3);
+  if (head.open) {
+    ctx.lineWidth = 1;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.stroke(path);
+  } else {
+    ctx.fill(path);
+  }
+  ctx.restore();
+};
+
+const LINE_LABEL_FONT = `500 ${LINE_LABEL_FONT_SIZE}px ${FONT_FAMILY}`;
+
+// The white box behind each label, centred on its point along the line.
+const getLabelBoxes = (obj: CanvasObject): Bounds[] => {
+  const height = LINE_LABEL_FONT_SIZE * LINE_HEIGHT;
+  return (obj.labels ?? []).map((label) => {
+    const point = getPointAlongLine(obj, label.position);
+    const width = measure(label.text, LINE_LABEL_FONT) + 8;
+    return { minX: point.x - width / 2, minY: point.y - height / 2, maxX: point.x + width / 2, maxY: point.y + height / 2 };
+  });
+};
+
+/**
+ * Everything drawing `obj` can touch: its bounds with `RENDER_MARGIN` around
+ * them, and line labels, which can be any width.
+ */
+export const getRenderBounds = (obj: CanvasObject): Bounds => {
+  const bounds = getObjectBounds(obj);
+  return getLabelBoxes(obj).reduce(
+    (reach, box) => ({
+      minX: Math.min(reach.minX, box.minX),
+      minY: Math.min(reach.minY, box.minY),
+      maxX: Math.max(reach.maxX, box.maxX),
+      maxY: Math.max(reach.maxY, box.maxY),
+    }),
+    {
+      minX: bounds.minX - RENDER_MARGIN,
+      minY: bounds.minY - RENDER_MARGIN,
+      maxX: bounds.maxX + RENDER_MARGIN,
+      maxY: bounds.maxY + RENDER_MARGIN,
+    },
+  );
+};
+
+// Labels sit on a white background that hides the stroke behind them.
+const drawLineLabels = (ctx: CanvasRenderingContext2D, obj: CanvasObject) => {
+  ctx.font = LINE_LABEL_FONT;
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'center';
+  const boxes = getLabelBoxes(obj);
+  (obj.labels ?? []).forEach((label, i) => {
+    const { minX, minY, maxX, maxY } = boxes[i];
+    ctx.fillStyle = '#FFFFFF';
+    ctx.beginPath();
+    traceRoundedRect(ctx, minX, minY, maxX - minX, maxY - minY, 4);
+    ctx.fill();
+    ctx.fillStyle = '#1F2937';
+    ctx.fillText(label.text, (minX + maxX) / 2, (minY + maxY) / 2);
+  });
+};
+
+// Selected lines and strokes are drawn thicker instead of outlined.
+const getEmphasis = (highlight: Highlight | undefined) => (highlight?.kind === 'selected' ? 2 : highlight ? 1 : 0);
+
+const drawLine = (ctx: CanvasRenderingContext2D, obj: CanvasObject, highlight: Highlight | undefined) => {
+  const style = resolveStyle(obj);
+  const width = style.strokeWidth + getEmphasis(highlight);
+  ctx.strokeStyle = style.stroke;
+  ctx.fillStyle = style.stroke;
+  ctx.lineWidth = width;
+  ctx.setLineDash(toDashes(style.dashArray));
+  ctx.stroke(new Path2D(getLinePathData(obj)));
+  ctx.setLineDash([]);
+
+  const arrowheads = getArrowheads(obj);
+  const points = getLinePoints(obj);
+  if (arrowheads.end !== 'none') {
+    drawArrowhead(ctx, arrowheads.end, points[points.length - 1], getEndDirection(points), width);
+  }
+  if (arrowheads.start !== 'none') {
+    drawArrowhead(ctx, arrowheads.start, points[0], getEndDirection([...points].reverse()), width);
+  }
+  drawLineLabels(ctx, obj);
+};
+
+const drawPen = (ctx: CanvasRenderingContext2D, obj: CanvasObject, highlight: Highlight | undefined) => {
+  const points = obj.points ?? [];
+  if (points.length === 0) return;
+  const style = resolveStyle(obj);
+  ctx.beginPath();
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.strokeStyle = style.stroke;
+  ctx.lineWidth = style.strokeWidth + getEmphasis(highlight);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.setLineDash(toDashes(style.dashArray));
+  ctx.stroke();
+  ctx.setLineDash([]);
+};
+
+/** Draws one object in board coordinates, highlighted as the DOM renderer would. */
+export const drawObject = (ctx: CanvasRenderingContext2D, obj: CanvasObject, highlight?: Highlight) => {
+  if (obj.hidden) return;
+  ctx.save();
+  ctx.globalAlpha = resolveStyle(obj).opacity;
+  if (obj.type === 'line' || obj.type === 'arrow') drawLine(ctx, obj, highlight);
+  else if (obj.type === 'pen') drawPen(ctx, obj, highlight);
+  else drawBox(ctx, obj, highlight);
+  ctx.restore();
+};
+
+/** Grid lines over `bounds`, one every `GRID_SIZE` board units. */
+export const drawGrid = (ctx: CanvasRenderingContext2D, bounds: Bounds) => {
+  ctx.save();
+  ctx.strokeStyle = GRID_LINE;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = Math.ceil(bounds.minX / GRID_SIZE) * GRID_SIZE; x <= bounds.maxX; x += GRID_SIZE) {
+    ctx.moveTo(x, bounds.minY);
+    ctx.lineTo(x, bounds.maxY);
+  }
+  for (let y = Math.ceil(bounds.minY / GRID_SIZE) * GRID_SIZE; y <= bounds.maxY; y += GRID_SIZE) {
+    ctx.moveTo(bounds.minX, y);
+    ctx.lineTo(bounds.maxX, y);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Space left around the objects in an exported image.
+const EXPORT_PADDING = 40;
+// Browsers refuse canvases much larger than this on a side, so big boards export at a lower scale.
+const MAX_EXPORT_SIZE = 8192;
+
+/**
+ * Draws every shown object onto a new canvas cropped to them, `scale` pixels
+ * per board unit. Returns null when there is nothing to draw.
+ */
+export const renderBoardImage = (objects: CanvasObject[], options: { scale: number; showGrid: boolean }) => {
+  const shown = objects.filter((obj) => !obj.hidden);
+  const content = getCombinedBounds(shown);
+  if (!content) return null;
+  const bounds = {
+    minX: content.minX - EXPORT_PADDING,
+    minY: content.minY - EXPORT_PADDING,
+    maxX: content.maxX + EXPORT_PADDING,
+    maxY: content.maxY + EXPORT_PADDING,
+  };
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const scale = Math.min(options.scale, MAX_EXPORT_SIZE / width, MAX_EXPORT_SIZE / height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.setTransform(scale, 0, 0, scale, -bounds.minX * scale, -bounds.minY * scale);
+  ctx.fillStyle = options.showGrid ? GRID_BACKGROUND : PLAIN_BACKGROUND;
+  ctx.fillRect(bounds.minX, bounds.minY, width, height);
+  if (options.showGrid) drawGrid(ctx, bounds);
+  shown.forEach((obj) => drawObject(ctx, obj));
+  return canvas;
+};
@@ -0,0 +1,30 @@
+import { createIndexedDbRepository } from './indexeddb';
+import { createMemoryRepository } from './memory';
+import { createRemoteRepository } from './remote';
+import type { BoardRepository, BoardStorageKind } from './types';
+
+export type { BoardRepository, BoardStorageKind, LoadedBoard } from './types';
+export type { ProjectRecord, ProjectRecordStore } from './records';
+export { createRecordRepository } from './records';
+export { createRemoteRepository, createIndexedDbRepository, createMemoryRepository };
+
+export const createBoardRepository = (kind: BoardStorageKind): BoardRepository => {
+  switch (kind) {
+    case 'remote':
+      return createRemoteRepository();
+    case 'local':
+      return createIndexedDbRepository();
+    case 'memory':
+      return createMemoryRepository();
+  }
+};
+
+const resolveStorageKind = (value: string | undefined): BoardStorageKind => {
+  if (value === undefined || value === '') return 'remote';
+  if (value === 'remote' || value === 'local' || value === 'memory') return value;
+  console.warn(`Unknown VITE_BOARD_STORAGE "${value}", falling back to "remote"`);
+  return 'remote';
+};
+
+/** The repository selected by `VITE_BOARD_STORAGE` (remote by default). */
+export const boardRepository = createBoardRepository(resolveStorageKind(import.meta.env.VITE_BOARD_STORAGE));
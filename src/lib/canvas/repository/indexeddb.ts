@@ -0,0 +1,12 @@
+import { deleteStoredProject, getStoredProject, getStoredProjects, putStoredProject } from '../local-store';
+import { createRecordRepository } from './records';
+import type { BoardRepository } from './types';
+
+/** Stores projects in this browser's IndexedDB without any server. */
+export const createIndexedDbRepository = (): BoardRepository =>
+  createRecordRepository('local', {
+    getAll: getStoredProjects,
+    get: getStoredProject,
+    put: putStoredProject,
+    delete: deleteStoredProject,
+  });
@@ -0,0 +1,18 @@
+import { createRecordRepository, type ProjectRecord } from './records';
+import type { BoardRepository } from './types';
+
+/** Keeps projects in memory only; everything is gone on reload. */
+export const createMemoryRepository = (initial: ProjectRecord[] = []): BoardRepository => {
+  const records = new Map(initial.map((record) => [record.id, record]));
+
+  return createRecordRepository('memory', {
+    getAll: async () => [...records.values()],
+    get: async (projectId) => records.get(projectId),
+    put: async (record) => {
+      records.set(record.id, record);
+    },
+    delete: async (projectId) => {
+      records.delete(projectId);
+    },
+  });
+};
@@ -0,0 +1,105 @@
+import { CanvasApiError } from '../api';
+import { CURRENT_SCHEMA_VERSION, loadObjects } from '../document';
+import type { CanvasObject, Project } from '../types';
+import type { BoardRepository, BoardStorageKind } from './types';
+
+export interface ProjectRecord extends Project {
+  /** Stored as written; upgraded according to `schema_version` when read. */
+  objects: CanvasObject[];
+}
+
+/** Minimal async key-value access to project records, keyed by project id. */
+export interface ProjectRecordStore {
+  getAll(): Promise<ProjectRecord[]>;
+  get(projectId: number): Promise<ProjectRecord | undefined>;
+  put(record: ProjectRecord): Promise<void>;
+  delete(projectId: number): Promise<void>;
+}
+
+const toProject = ({ objects: _objects, ...project }: ProjectRecord): Project => project;
+
+// Objects are copied on the way in and out so callers can never mutate what
+// is stored, the same guarantee a network round-trip gives.
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const now = () => new Date().toISOString();
+
+/** Implements the canvas-api semantics on top of any record store. */
+export const createRecordRepository = (kind: BoardStorageKind, store: ProjectRecordStore): BoardRepository => {
+  const nextId = async () => {
+    const records = await store.getAll();
+    return records.reduce((max, record) => Math.max(max, record.id), 0) + 1;
+  };
+
+  const insert = async (
+    name: string,
+    description: string | null,
+    objects: CanvasObject[],
+    schemaVersion = CURRENT_SCHEMA_VERSION,
+  ) => {
+    const timestamp = now();
+    const id = await nextId();
+    await store.put({
+      id,
+      name,
+      description,
+      created_at: timestamp,
+      updated_at: timestamp,
+      schema_version: schemaVersion,
+      objects: clone(objects),
+    });
+    return id;
+  };
+
+  return {
+    kind,
+    scope: kind,
+
+    async listProjects() {
+      const records = await store.getAll();
+      return records
+        .map(toProject)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+    },
+
+    async getProject(projectId) {
+      const record = await store.get(projectId);
+      return record
+        ? { project: toProject(record), ...loadObjects(record.schema_version, clone(record.objects)) }
+        : { project: null, objects: [], quarantined: [] };
+    },
+
+    createProject(name) {
+      return insert(name, '', []);
+    },
+
+    async saveObjects(projectId, objects, baseUpdatedAt = null) {
+      const record = await store.get(projectId);
+      if (!record) throw new CanvasApiError('save_objects', 404, 'Project not found');
+      if (baseUpdatedAt && record.updated_at !== baseUpdatedAt) {
+        throw new CanvasApiError('save_objects', 409, 'Project was modified');
+      }
+      const updatedAt = now();
+      await store.put({ ...record, objects: clone(objects), schema_version: CURRENT_SCHEMA_VERSION, updated_at: updatedAt });
+      return updatedAt;
+    },
+
+    async renameProject(projectId, name) {
+      const record = await store.get(projectId);
+      if (!record) return null;
+      const updatedAt = now();
+      await store.put({ ...record, name, updated_at: updatedAt });
+      return updatedAt;
+    },
+
+    async duplicateProject(projectId) {
+      const record = await store.get(projectId);
+      if (!record) throw new CanvasApiError('duplicate_project', 404, 'Project not found');
+      return insert(`${record.name} (copy)`, record.description, record.objects, record.schema_version ?? 0);
+    },
+
+    async deleteProject(projectId) {
+      await store.delete(projectId);
+    },
+  };
+};
@@ -0,0 +1,26 @@
+import {
+  listProjects,
+  getProject,
+  createProject,
+  saveObjects,
+  renameProject,
+  duplicateProject,
+  deleteProject,
+  API_URL,
+} from '../api';
+import type { BoardRepository } from './types';
+
+/** Scope of the canvas-api endpoint this build talks to. */
+export const REMOTE_SCOPE = `remote:${API_URL}`;
+
+export const createRemoteRepository = (): BoardRepository => ({
+  kind: 'remote',
+  scope: REMOTE_SCOPE,
+  listProjects,
+  getProject,
+  createProject,
+  saveObjects,
+  renameProject,
+  duplicateProject,
+  deleteProject,
+});
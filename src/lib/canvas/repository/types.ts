@@ -0,0 +1,34 @@
+import type { CanvasObject, Project, QuarantinedObject } from '../types';
+
+export type BoardStorageKind = 'remote' | 'local' | 'memory';
+
+/** A project's objects, already migrated to the current schema and validated. */
+export interface LoadedBoard {
+  project: Project | null;
+  objects: CanvasObject[];
+  quarantined: QuarantinedObject[];
+}
+
+/**
+ * Everything the app needs from a storage backend. Implementations follow the
+ * canvas-api contract, including its errors: `saveObjects` rejects with a
+ * `CanvasApiError` (404 or 409) when the project is gone or was modified after
+ * `baseUpdatedAt`.
+ */
+export interface BoardRepository {
+  readonly kind: BoardStorageKind;
+  /**
+   * Identifies where projects are stored. Local copies and queued saves are
+   * namespaced by it, since the same project id means a different board in
+   * each backend.
+   */
+  readonly scope: string;
+  listProjects(): Promise<Project[]>;
+  getProject(projectId: number): Promise<LoadedBoard>;
+  createProject(name: string): Promise<number>;
+  /** Resolves with the project's new `updated_at`. */
+  saveObjects(projectId: number, objects: CanvasObject[], baseUpdatedAt?: string | null): Promise<string | null>;
+  renameProject(projectId: number, name: string): Promise<string | null>;
+  duplicateProject(projectId: number): Promise<number>;
+  deleteProject(projectId: number): Promise<void>;
+}
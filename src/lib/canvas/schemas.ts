@@ -0,0 +1,118 @@
+import { z } from 'zod';
+
+export const toolSchema = z.enum([
+  'select', 'rectangle', 'circle', 'text', 'sticky', 'line', 'arrow', 'pen', 'eraser', 'image', 'diamond', 'triangle',
+]);
+
+export const strokeStyleSchema = z.enum(['solid', 'dashed', 'dotted']);
+
+export const textStyleSchema = z.object({
+  fontSize: z.number().optional(),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  underline: z.boolean().optional(),
+  strikethrough: z.boolean().optional(),
+  align: z.enum(['left', 'center', 'right']).optional(),
+  verticalAlign: z.enum(['top', 'middle', 'bottom']).optional(),
+  list: z.literal('bullet').optional(),
+  autoFit: z.boolean().optional(),
+}).passthrough();
+
+export const connectorBindingSchema = z.object({
+  objectId: z.string(),
+  anchor: z.enum(['center', 'top', 'right', 'bottom', 'left']),
+}).passthrough();
+
+export const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+export const arrowheadStyleSchema = z.enum(['none', 'triangle', 'open', 'diamond', 'circle', 'bar']);
+
+export const lineLabelSchema = z.object({ text: z.string(), position: z.number() }).passthrough();
+
+// Unknown keys are kept so that fields added by newer clients survive a
+// load/save cycle through an older one.
+export const canvasObjectSchema = z.object({
+  id: z.string(),
+  type: toolSchema,
+  x: z.number(),
+  y: z.number(),
+  x2: z.number().optional(),
+  y2: z.number().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  text: z.string().optional(),
+  textStyle: textStyleSchema.optional(),
+  color: z.string(),
+  stroke: z.string().optional(),
+  strokeWidth: z.number().optional(),
+  strokeStyle: strokeStyleSchema.optional(),
+  opacity: z.number().optional(),
+  cornerRadius: z.number().optional(),
+  noFill: z.boolean().optional(),
+  points: z.array(pointSchema).optional(),
+  startBinding: connectorBindingSchema.optional(),
+  endBinding: connectorBindingSchema.optional(),
+  routing: z.enum(['straight', 'elbow', 'curved']).optional(),
+  waypoints: z.array(pointSchema).optional(),
+  startArrowhead: arrowheadStyleSchema.optional(),
+  endArrowhead: arrowheadStyleSchema.optional(),
+  labels: z.array(lineLabelSchema).optional(),
+  rotation: z.number().optional(),
+  flipX: z.boolean().optional(),
+  flipY: z.boolean().optional(),
+  groupIds: z.array(z.string()).optional(),
+  hidden: z.boolean().optional(),
+  locked: z.boolean().optional(),
+}).passthrough();
+
+const BOX_TYPES = new Set(['rectangle', 'circle', 'text', 'sticky', 'diamond', 'triangle', 'image']);
+
+/**
+ * An object that can actually be rendered: finite coordinates and the
+ * geometry its type needs (a size for boxes, an end point for lines, points
+ * for pen strokes).
+ */
+export const drawableObjectSchema = canvasObjectSchema.superRefine((obj, ctx) => {
+  const finite = (value: number | undefined) => value !== undefined && Number.isFinite(value);
+  const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+
+  if (!finite(obj.x) || !finite(obj.y)) issue('position is not a finite number');
+  if (obj.rotation !== undefined && !finite(obj.rotation)) issue('rotation is not a finite number');
+
+  if (BOX_TYPES.has(obj.type)) {
+    if (!finite(obj.width) || !finite(obj.height) || obj.width! <= 0 || obj.height! <= 0) {
+      issue(`${obj.type} has no valid width/height`);
+    }
+  } else if (obj.type === 'line' || obj.type === 'arrow') {
+    if (!finite(obj.x2) || !finite(obj.y2)) issue(`${obj.type} has no end point`);
+  } else if (obj.type === 'pen') {
+    if (!obj.points || obj.points.length === 0) issue('pen stroke has no points');
+  } else {
+    issue(`"${obj.type}" is a tool, not an object type`);
+  }
+});
+
+export const boardDocumentSchema = z.object({
+  schemaVersion: z.number().int().nonnegative(),
+  board: z.object({ name: z.string().nullable() }).passthrough(),
+  objects: z.array(z.unknown()),
+});
+
+// Documents inside a board file are checked by `loadDocument`, which also
+// migrates them, so they stay `unknown` here.
+export const boardFileSchema = z.object({
+  format: z.literal('canvas-board'),
+  exportedAt: z.string().optional(),
+  document: z.unknown(),
+  settings: z.object({ showGrid: z.boolean() }).partial().optional(),
+  templates: z.array(z.object({ id: z.string(), name: z.string(), document: z.unknown() })).optional(),
+});
+
+export const projectSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  schema_version: z.number().optional(),
+});
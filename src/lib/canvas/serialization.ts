@@ -0,0 +1,29 @@
+import { isPlainObject } from './document';
+import type { CanvasObject } from './types';
+
+// The backend stores each object verbatim as JSON, so whatever survives
+// JSON.stringify is exactly what comes back on load.
+export const serializeObjects = (objects: CanvasObject[]): CanvasObject[] =>
+  JSON.parse(JSON.stringify(objects));
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    // Keys holding `undefined` are dropped by JSON and count as absent.
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => deepEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+export const boardsEqual = (a: CanvasObject[], b: CanvasObject[]): boolean => deepEqual(a, b);
+
+// Returns the ids of objects that would not come back unchanged after a
+// save/load cycle (NaN coordinates, missing objects, reordered boards…).
+export const findLossyObjects = (original: CanvasObject[], loaded: CanvasObject[]): string[] =>
+  original
+    .filter((obj, i) => !deepEqual(obj, loaded[i]))
+    .map((obj) => obj.id);
@@ -0,0 +1,153 @@
+import { boundsIntersect, getObjectBounds, type Bounds } from './objects';
+import type { CanvasObject } from './types';
+
+// A quadtree over the bounds of every object on the board, kept alongside the
+// object list so the editor only draws and hit-tests what is near the
+// viewport or the pointer. Syncing compares objects by reference, and edits
+// always replace the objects they change, so a drag re-indexes just the
+// dragged objects however large the board is. Objects are indexed by their
+// bounds unless `getBounds` says otherwise, e.g. to take in what their
+// drawing reaches past them.
+
+export interface SpatialIndex {
+  /** Brings the index up to date with `objects`, re-indexing only objects that were replaced, added or removed. */
+  sync: (objects: CanvasObject[]) => void;
+  /** Objects whose bounds intersect `bounds`, bottom to top as in the document. */
+  query: (bounds: Bounds) => CanvasObject[];
+}
+
+interface Entry {
+  obj: CanvasObject;
+  bounds: Bounds;
+  node: Node;
+  /** Position in the object list as of the last sync. */
+  order: number;
+  /** The sync that last saw the object, so objects no longer on the board can be found and removed. */
+  seen: number;
+}
+
+interface Node {
+  bounds: Bounds;
+  entries: Entry[];
+  children: Node[] | null;
+}
+
+// A node splits once it holds more entries than this, unless it is already as deep as it may go.
+const NODE_CAPACITY = 16;
+const MAX_DEPTH = 16;
+/** Size of the area the tree first covers; it grows to take in anything outside it. */
+const INITIAL_EXTENT = 4096;
+
+const createNode = (bounds: Bounds): Node => ({ bounds, entries: [], children: null });
+
+const containsBounds = (outer: Bounds, inner: Bounds) =>
+  inner.minX >= outer.minX && inner.maxX <= outer.maxX && inner.minY >= outer.minY && inner.maxY <= outer.maxY;
+
+const quadrants = ({ minX, minY, maxX, maxY }: Bounds): Bounds[] => {
+  const midX = (minX + maxX) / 2;
+  const midY = (minY + maxY) / 2;
+  return [
+    { minX, minY, maxX: midX, maxY: midY },
+    { minX: midX, minY, maxX, maxY: midY },
+    { minX, minY: midY, maxX: midX, maxY },
+    { minX: midX, minY: midY, maxX, maxY },
+  ];
+};
+
+export const createSpatialIndex = (getBounds: (obj: CanvasObject) => Bounds = getObjectBounds): SpatialIndex => {
+  let root = createNode({ minX: -INITIAL_EXTENT, minY: -INITIAL_EXTENT, maxX: INITIAL_EXTENT, maxY: INITIAL_EXTENT });
+  // Depth is counted from the first root, so growing the tree does not let it grow deeper.
+  let depthOfRoot = 0;
+  let indexed: CanvasObject[] = [];
+  let syncs = 0;
+  const entries = new Map<string, Entry>();
+
+  // Entries go as deep as the quadrant that wholly contains them; anything
+  // straddling a split line stays in the node above.
+  const insertInto = (node: Node, entry: Entry, depth: number) => {
+    let current = node;
+    let level = depth;
+    while (current.children) {
+      const child = current.children.find((candidate) => containsBounds(candidate.bounds, entry.bounds));
+      if (!child) break;
+      current = child;
+      level++;
+    }
+    current.entries.push(entry);
+    entry.node = current;
+    if (!current.children && current.entries.length > NODE_CAPACITY && level < MAX_DEPTH) {
+      current.children = quadrants(current.bounds).map(createNode);
+      const held = current.entries;
+      current.entries = [];
+      held.forEach((item) => insertInto(current, item, level));
+    }
+  };
+
+  // Doubles the root towards `bounds` until it covers them; the old root
+  // becomes one quadrant of the new one.
+  const growToFit = (bounds: Bounds) => {
+    while (!containsBounds(root.bounds, bounds)) {
+      const { minX, minY, maxX, maxY } = root.bounds;
+      const width = maxX - minX;
+      const height = maxY - minY;
+      const left = bounds.minX < minX;
+      const up = bounds.minY < minY;
+      const grown = createNode({
+        minX: left ? minX - width : minX,
+        minY: up ? minY - height : minY,
+        maxX: left ? maxX : maxX + width,
+        maxY: up ? maxY : maxY + height,
+      });
+      grown.children = quadrants(grown.bounds).map((quadrant, i) => (i === (up ? 2 : 0) + (left ? 1 : 0) ? root : createNode(quadrant)));
+      root = grown;
+      depthOfRoot--;
+    }
+  };
+
+  const insert = (obj: CanvasObject, order: number) => {
+    const entry: Entry = { obj, bounds: getBounds(obj), node: root, order, seen: syncs };
+    growToFit(entry.bounds);
+    insertInto(root, entry, depthOfRoot);
+    entries.set(obj.id, entry);
+  };
+
+  const remove = (entry: Entry) => {
+    entry.node.entries.splice(entry.node.entries.indexOf(entry), 1);
+    entries.delete(entry.obj.id);
+  };
+
+  return {
+    sync: (objects) => {
+      if (objects === indexed) return;
+      indexed = objects;
+      syncs++;
+      objects.forEach((obj, order) => {
+        const entry = entries.get(obj.id);
+        if (entry?.obj === obj) {
+          entry.order = order;
+          entry.seen = syncs;
+          return;
+        }
+        if (entry) remove(entry);
+        insert(obj, order);
+      });
+      if (entries.size > objects.length) {
+        entries.forEach((entry) => {
+          if (entry.seen !== syncs) remove(entry);
+        });
+      }
+    },
+    query: (bounds) => {
+      const found: Entry[] = [];
+      const visit = (node: Node) => {
+        if (!boundsIntersect(node.bounds, bounds)) return;
+        node.entries.forEach((entry) => {
+          if (boundsIntersect(entry.bounds, bounds)) found.push(entry);
+        });
+        node.children?.forEach(visit);
+      };
+      visit(root);
+      return found.sort((a, b) => a.order - b.order).map((entry) => entry.obj);
+    },
+  };
+};
@@ -0,0 +1,56 @@
+import { isPointBased } from './objects';
+import type { CanvasObject, StrokeStyle, Tool } from './types';
+
+/** The fields that make up how an object looks, as edited from the toolbar. */
+export type ObjectStyle = Pick<CanvasObject, 'color' | 'stroke' | 'strokeWidth' | 'strokeStyle' | 'opacity' | 'cornerRadius' | 'noFill'>;
+
+/** Every style field resolved to the value it is drawn with. */
+export interface ResolvedStyle {
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  strokeStyle: StrokeStyle;
+  /** SVG `stroke-dasharray` for the stroke style, or undefined when solid. */
+  dashArray: string | undefined;
+  opacity: number;
+  cornerRadius: number;
+}
+
+export const MAX_STROKE_WIDTH = 20;
+export const MAX_CORNER_RADIUS = 50;
+
+// Objects saved before styling existed carry only `color`; these defaults
+// keep them looking the way they always did.
+export const DEFAULT_OUTLINE = 'rgba(255,255,255,0.3)';
+const DEFAULT_RADIUS: Partial<Record<Tool, number>> = { rectangle: 4, sticky: 2, image: 4, text: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const getDashArray = (style: StrokeStyle, width: number) => {
+  if (style === 'dashed') return `${width * 3} ${width * 2}`;
+  if (style === 'dotted') return `${width} ${width}`;
+  return undefined;
+};
+
+/** Whether the object has an outline separate from its fill. */
+export const hasOutline = (obj: CanvasObject) => !isPointBased(obj);
+
+/** Whether the object can round its corners. */
+export const hasCornerRadius = (obj: CanvasObject) => DEFAULT_RADIUS[obj.type] !== undefined;
+
+export const resolveStyle = (obj: CanvasObject): ResolvedStyle => {
+  const strokeOnly = isPointBased(obj);
+  // Text boxes were drawn without a border or background.
+  const isText = obj.type === 'text';
+  const strokeWidth = clamp(obj.strokeWidth ?? (strokeOnly ? 3 : isText ? 0 : 2), 0, MAX_STROKE_WIDTH);
+  const strokeStyle = obj.strokeStyle ?? 'solid';
+  return {
+    fill: strokeOnly || isText || obj.noFill ? 'transparent' : obj.color,
+    stroke: strokeOnly ? obj.color : obj.stroke ?? DEFAULT_OUTLINE,
+    strokeWidth,
+    strokeStyle,
+    dashArray: getDashArray(strokeStyle, strokeWidth),
+    opacity: clamp(obj.opacity ?? 1, 0, 1),
+    cornerRadius: clamp(obj.cornerRadius ?? DEFAULT_RADIUS[obj.type] ?? 0, 0, MAX_CORNER_RADIUS),
+  };
+};
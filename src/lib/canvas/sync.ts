@@ -0,0 +1,152 @@
+import { CanvasApiError } from './api';
+import {
+  boardKey,
+  deleteLocalBoard,
+  deletePendingSave,
+  getLocalBoard,
+  getPendingSave,
+  getPendingSaves,
+  putLocalBoard,
+  putPendingSave,
+} from './local-store';
+import type { BoardRepository, LoadedBoard } from './repository';
+import { boardsEqual, serializeObjects } from './serialization';
+import type { CanvasObject } from './types';
+
+/** A local edit that could not be written because the server copy moved on. */
+export interface SyncConflict {
+  projectId: number;
+  name: string | null;
+  localObjects: CanvasObject[];
+  server: LoadedBoard;
+}
+
+export type ConflictResolution = 'keep-local' | 'keep-server' | 'save-copy';
+
+export interface ResolvedBoard {
+  /** `null` when the board no longer exists anywhere. */
+  projectId: number | null;
+  name: string | null;
+  objects: CanvasObject[];
+  updatedAt: string | null;
+}
+
+export const isConflictError = (error: unknown): error is CanvasApiError =>
+  error instanceof CanvasApiError && error.isConflict;
+
+export const loadConflict = async (
+  repository: BoardRepository,
+  projectId: number,
+  localObjects: CanvasObject[],
+  name: string | null,
+  server?: LoadedBoard,
+): Promise<SyncConflict> => ({ projectId, name, localObjects, server: server ?? (await repository.getProject(projectId)) });
+
+/**
+ * Records that `savedObjects` reached the server. Edits queued while the save
+ * was in flight stay queued, rebased on the new server version.
+ */
+export const settlePendingSave = async (
+  scope: string,
+  projectId: number,
+  savedObjects: CanvasObject[],
+  updatedAt: string | null,
+) => {
+  const pending = await getPendingSave(scope, projectId);
+  if (pending) {
+    if (boardsEqual(pending.objects, serializeObjects(savedObjects))) await deletePendingSave(scope, projectId);
+    else await putPendingSave({ ...pending, baseUpdatedAt: updatedAt });
+  }
+  const local = await getLocalBoard(boardKey(scope, projectId));
+  if (local) await putLocalBoard({ ...local, serverUpdatedAt: updatedAt });
+};
+
+/**
+ * Pushes queued offline saves to the server. `skipProjectId` is the board
+ * currently open, whose saves go through autosave instead. Stops at the first
+ * transient failure so the rest are retried on the next reconnect.
+ */
+export const replayPendingSaves = async (repository: BoardRepository, skipProjectId: number | null) => {
+  const conflicts: SyncConflict[] = [];
+  let synced = 0;
+
+  for (const pending of await getPendingSaves(repository.scope)) {
+    if (pending.projectId === skipProjectId) continue;
+    try {
+      const updatedAt = await repository.saveObjects(pending.projectId, pending.objects, pending.baseUpdatedAt);
+      await settlePendingSave(repository.scope, pending.projectId, pending.objects, updatedAt);
+      synced += 1;
+    } catch (error) {
+      if (!isConflictError(error)) break;
+      const local = await getLocalBoard(boardKey(repository.scope, pending.projectId));
+      conflicts.push(await loadConflict(repository, pending.projectId, pending.objects, local?.name ?? null));
+    }
+  }
+
+  return { synced, conflicts };
+};
+
+const storeServerCopy = async (scope: string, { projectId, server }: SyncConflict) => {
+  await deletePendingSave(scope, projectId);
+  if (!server.project) {
+    await deleteLocalBoard(boardKey(scope, projectId));
+    return;
+  }
+  await putLocalBoard({
+    key: boardKey(scope, projectId),
+    projectId,
+    name: server.project.name,
+    objects: server.objects,
+    quarantined: server.quarantined,
+    serverUpdatedAt: server.project.updated_at,
+    savedAt: Date.now(),
+  });
+};
+
+const saveAsNewProject = async (
+  repository: BoardRepository,
+  conflict: SyncConflict,
+  name: string,
+): Promise<ResolvedBoard> => {
+  const projectId = await repository.createProject(name);
+  const updatedAt = await repository.saveObjects(projectId, serializeObjects(conflict.localObjects));
+  await storeServerCopy(repository.scope, conflict);
+  await putLocalBoard({
+    key: boardKey(repository.scope, projectId),
+    projectId,
+    name,
+    objects: serializeObjects(conflict.localObjects),
+    serverUpdatedAt: updatedAt,
+    savedAt: Date.now(),
+  });
+  return { projectId, name, objects: conflict.localObjects, updatedAt };
+};
+
+export const resolveConflict = async (
+  repository: BoardRepository,
+  conflict: SyncConflict,
+  resolution: ConflictResolution,
+): Promise<ResolvedBoard> => {
+  const { projectId, server } = conflict;
+  const name = server.project?.name ?? conflict.name ?? 'Recovered board';
+
+  switch (resolution) {
+    case 'keep-local': {
+      // A board deleted on the server can only be kept by recreating it.
+      if (!server.project) return saveAsNewProject(repository, conflict, name);
+      const updatedAt = await repository.saveObjects(projectId, serializeObjects(conflict.localObjects), server.project.updated_at);
+      await settlePendingSave(repository.scope, projectId, conflict.localObjects, updatedAt);
+      return { projectId, name, objects: conflict.localObjects, updatedAt };
+    }
+    case 'keep-server':
+      await storeServerCopy(repository.scope, conflict);
+      return {
+        projectId: server.project ? projectId : null,
+        name: server.project?.name ?? null,
+        objects: server.objects,
+        updatedAt: server.project?.updated_at ?? null,
+      };
+    case 'save-copy':
+      return saveAsNewProject(repository, conflict, `${name} (your copy)`);
+  }
+};
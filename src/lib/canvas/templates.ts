@@ -0,0 +1,48 @@
+import { DocumentError, isPlainObject, loadDocument } from './document';
+import type { Template } from './types';
+
+const TEMPLATES_KEY = 'canvas-templates';
+
+/**
+ * Reads user templates from localStorage, upgrading the unversioned
+ * `{ id, name, objects }` entries older builds wrote. Unreadable templates
+ * are skipped and invalid objects inside them dropped; both are counted.
+ */
+export const loadTemplates = () => {
+  const templates: Template[] = [];
+  let skipped = 0;
+  let quarantined = 0;
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]');
+  } catch (error) {
+    console.error('Stored templates are not valid JSON:', error);
+    return { templates, skipped: 1, quarantined };
+  }
+
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    if (!isPlainObject(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string') {
+      skipped += 1;
+      continue;
+    }
+    try {
+      const loaded = loadDocument(entry.document ?? entry);
+      if (loaded.quarantined.length > 0) {
+        console.warn(`Template "${entry.name}": dropped invalid objects`, loaded.quarantined);
+        quarantined += loaded.quarantined.length;
+      }
+      templates.push({ id: entry.id, name: entry.name, document: loaded.document });
+    } catch (error) {
+      if (!(error instanceof DocumentError)) throw error;
+      console.warn(`Template "${entry.name}" skipped: ${error.message}`);
+      skipped += 1;
+    }
+  }
+
+  return { templates, skipped, quarantined };
+};
+
+export const saveTemplates = (templates: Template[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
@@ -0,0 +1,152 @@
+import type { CanvasObject, TextStyle, Tool } from './types';
+
+// Text is laid out here rather than by the browser: lines are wrapped with
+// canvas text metrics and rendered one by one, so the board, its exports and
+// anything else that draws a text box break lines in exactly the same places.
+
+export const DEFAULT_FONT_SIZE = 14;
+export const MIN_FONT_SIZE = 6;
+export const MAX_FONT_SIZE = 96;
+export const FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+export const LINE_HEIGHT = 1.3;
+/** Space between a box's edge and its text. */
+export const TEXT_PADDING = 8;
+
+export interface TextLine {
+  text: string;
+  /** Starts a bullet item; continuation lines of the item only get the indent. */
+  bullet: boolean;
+  indent: number;
+}
+
+export interface TextLayout {
+  lines: TextLine[];
+  fontSize: number;
+  lineHeight: number;
+  font: string;
+}
+
+export type TextFormat = 'bold' | 'italic' | 'underline' | 'strikethrough';
+
+const TEXT_TYPES = new Set<Tool>(['text', 'sticky', 'rectangle', 'circle', 'diamond', 'triangle']);
+
+/** Text boxes, sticky notes and closed shapes, which carry their text as a centred label. */
+export const canHaveText = (obj: CanvasObject) => TEXT_TYPES.has(obj.type);
+
+/** Dark text on the canvas itself, white text on a filled sticky note or shape. */
+export const getTextColor = (obj: CanvasObject) => (obj.type === 'text' || obj.noFill ? '#1F2937' : '#ffffff');
+const getBaseWeight = (obj: CanvasObject) => (obj.type === 'sticky' ? 500 : 400);
+
+export const getTextDecoration = (style: TextStyle) =>
+  [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean).join(' ') || undefined;
+
+/** Sets one text style field, dropping it when it goes back to the default. */
+export const setTextStyle = <K extends keyof TextStyle>(obj: CanvasObject, key: K, value: TextStyle[K]): CanvasObject => {
+  const { [key]: _previous, ...rest } = obj.textStyle ?? {};
+  const textStyle: TextStyle = value === undefined || value === false ? rest : { ...rest, [key]: value };
+  return { ...obj, textStyle: Object.keys(textStyle).length > 0 ? textStyle : undefined };
+};
+
+export const toggleTextFormat = (obj: CanvasObject, format: TextFormat) =>
+  setTextStyle(obj, format, !obj.textStyle?.[format]);
+
+const getFont = (style: TextStyle, fontSize: number, baseWeight: number) =>
+  `${style.italic ? 'italic ' : ''}${style.bold ? 700 : baseWeight} ${fontSize}px ${FONT_FAMILY}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+export const measure = (text: string, font: string) => {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * 7;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
+// Greedy word wrap; a word wider than the line is broken between characters.
+const wrapParagraph = (paragraph: string, width: number, font: string) => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of paragraph.split(/(?<= )/)) {
+    const candidate = current + word;
+    if (measure(candidate.trimEnd(), font) <= width) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current.trimEnd());
+    current = '';
+    for (const char of word) {
+      if (current && measure(current + char, font) > width) {
+        lines.push(current);
+        current = '';
+      }
+      current += char;
+    }
+  }
+  lines.push(current.trimEnd());
+  return lines;
+};
+
+const wrapText = (text: string, style: TextStyle, width: number, fontSize: number, font: string) => {
+  const indent = style.list === 'bullet' ? fontSize * 1.2 : 0;
+  return text.split('\n').flatMap((paragraph) => {
+    const bullet = style.list === 'bullet' && paragraph.trim() !== '';
+    return wrapParagraph(paragraph, Math.max(1, width - indent), font).map((line, index) => ({
+      text: line,
+      bullet: bullet && index === 0,
+      indent,
+    }));
+  });
+};
+
+// The largest upright rectangle inside each shape, as fractions of its box:
+// an ellipse fits 1/√2 of each axis, a diamond half of each, and the
+// triangle (apex at the top centre) half its width across its lower half;
+// flipped upside down, that is its upper half.
+const INSETS: Partial<Record<Tool, { x: number; y: number; width: number; height: number }>> = {
+  circle: { x: (1 - Math.SQRT1_2) / 2, y: (1 - Math.SQRT1_2) / 2, width: Math.SQRT1_2, height: Math.SQRT1_2 },
+  diamond: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 },
+  triangle: { x: 0.25, y: 0.5, width: 0.5, height: 0.5 },
+};
+
+/** The area text is laid out in, relative to the object's top-left corner. */
+export const getTextArea = (obj: CanvasObject) => {
+  const width = obj.width ?? 0;
+  const height = obj.height ?? 0;
+  const inset = INSETS[obj.type] ?? { x: 0, y: 0, width: 1, height: 1 };
+  // Flips mirror the shape but not its text, so the area is mirrored to match.
+  const y = obj.flipY ? 1 - inset.y - inset.height : inset.y;
+  return {
+    x: inset.x * width + TEXT_PADDING,
+    y: y * height + TEXT_PADDING,
+    width: Math.max(0, inset.width * width - TEXT_PADDING * 2),
+    height: Math.max(0, inset.height * height - TEXT_PADDING * 2),
+  };
+};
+
+/**
+ * Wraps the object's text to its box. With `autoFit` the font shrinks until
+ * every line fits the box's height, down to `MIN_FONT_SIZE`.
+ */
+export const layoutText = (obj: CanvasObject): TextLayout => {
+  const style = obj.textStyle ?? {};
+  const area = getTextArea(obj);
+  const text = obj.text ?? '';
+  let fontSize = Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, style.fontSize ?? DEFAULT_FONT_SIZE));
+
+  for (;;) {
+    const font = getFont(style, fontSize, getBaseWeight(obj));
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const lines = wrapText(text, style, area.width, fontSize, font);
+    const fits = lines.length * lineHeight <= area.height;
+    if (!style.autoFit || fits || fontSize <= MIN_FONT_SIZE) return { lines, fontSize, lineHeight, font };
+    fontSize = Math.max(MIN_FONT_SIZE, fontSize - 1);
+  }
+};
+
+/** Vertical offset of the first line inside the text area; text too tall for it runs off the bottom. */
+export const getTextOffset = (layout: TextLayout, style: TextStyle, areaHeight: number) => {
+  const free = areaHeight - layout.lines.length * layout.lineHeight;
+  if (style.verticalAlign === 'top' || free <= 0) return 0;
+  if (style.verticalAlign === 'bottom') return free;
+  return free / 2;
+};
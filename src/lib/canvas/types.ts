@@ -0,0 +1,126 @@
+export type Tool = 'select' | 'rectangle' | 'circle' | 'text' | 'sticky' | 'line' | 'arrow' | 'pen' | 'eraser' | 'image' | 'diamond' | 'triangle';
+
+export type StrokeStyle = 'solid' | 'dashed' | 'dotted';
+
+/** Formatting of a text box or sticky note; it applies to the whole text. */
+export interface TextStyle {
+  fontSize?: number;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  /** Defaults to centred both ways. */
+  align?: 'left' | 'center' | 'right';
+  verticalAlign?: 'top' | 'middle' | 'bottom';
+  /** Turns every paragraph into a bullet item. */
+  list?: 'bullet';
+  /** Shrinks the font until the text fits the box. */
+  autoFit?: boolean;
+}
+
+/** Where a connector end sits on its shape: the middle of a side, or the centre. */
+export type ConnectorAnchor = 'center' | 'top' | 'right' | 'bottom' | 'left';
+
+/** Attaches one end of a line or arrow to a shape, which the end then follows. */
+export interface ConnectorBinding {
+  objectId: string;
+  anchor: ConnectorAnchor;
+}
+
+export type LineRouting = 'straight' | 'elbow' | 'curved';
+
+export type ArrowheadStyle = 'none' | 'triangle' | 'open' | 'diamond' | 'circle' | 'bar';
+
+/** Text along a line or arrow, such as "Yes" or "No" on the way out of a decision. */
+export interface LineLabel {
+  text: string;
+  /** How far along the line the label sits, from 0 at its start to 1 at its end. */
+  position: number;
+}
+
+export interface CanvasObject {
+  id: string;
+  type: Tool;
+  x: number;
+  y: number;
+  x2?: number;
+  y2?: number;
+  width?: number;
+  height?: number;
+  /** Plain text; paragraphs are separated by newlines. */
+  text?: string;
+  textStyle?: TextStyle;
+  /** Fill of shapes; lines and pen strokes are drawn in this colour. */
+  color: string;
+  /** Outline of shapes. The style fields are optional and fall back to the defaults in `style.ts`. */
+  stroke?: string;
+  strokeWidth?: number;
+  strokeStyle?: StrokeStyle;
+  /** From 0 (invisible) to 1. */
+  opacity?: number;
+  cornerRadius?: number;
+  /** Draws a shape as an outline only. */
+  noFill?: boolean;
+  points?: { x: number; y: number }[];
+  /** Shapes a line or arrow is attached to; its end points are kept on them. */
+  startBinding?: ConnectorBinding;
+  endBinding?: ConnectorBinding;
+  /** How a line or arrow runs between its ends; straight when absent. */
+  routing?: LineRouting;
+  /** Points a line or arrow passes through between its ends, in order. */
+  waypoints?: { x: number; y: number }[];
+  /** An arrow ends in a triangle and a line has no arrowheads unless these say otherwise. */
+  startArrowhead?: ArrowheadStyle;
+  endArrowhead?: ArrowheadStyle;
+  labels?: LineLabel[];
+  /** Clockwise degrees around the centre; lines and pen strokes store rotated points instead. */
+  rotation?: number;
+  /** Mirrors a box's content; lines and pen strokes are flipped by moving their points. */
+  flipX?: boolean;
+  flipY?: boolean;
+  /** Groups this object belongs to, outermost first; absent when ungrouped. */
+  groupIds?: string[];
+  hidden?: boolean;
+  locked?: boolean;
+}
+
+export interface BoardMetadata {
+  name: string | null;
+}
+
+/** The versioned, self-describing form of a board used for every stored copy. */
+export interface BoardDocument {
+  schemaVersion: number;
+  board: BoardMetadata;
+  objects: CanvasObject[];
+}
+
+/** A stored object that failed validation and is kept aside instead of rendered. */
+export interface QuarantinedObject {
+  value: unknown;
+  reason: string;
+}
+
+/** How the board is drawn: an element per object, or the whole scene on one canvas. */
+export type Renderer = 'dom' | 'canvas';
+
+/** Viewer preferences that travel with a board when it is exported to a file. */
+export interface BoardSettings {
+  showGrid: boolean;
+}
+
+export interface Template {
+  id: string;
+  name: string;
+  document: BoardDocument;
+}
+
+export interface Project {
+  id: number;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  /** Schema version of the objects stored for this project; 0 for rows saved before versioning. */
+  schema_version?: number;
+}
@@ -0,0 +1,51 @@
+import type { CanvasObject } from './types';
+
+// Objects are drawn in array order, so the z-order commands only move the
+// selected objects within `objects`, keeping their relative order.
+
+export type ZOrderCommand = 'front' | 'forward' | 'backward' | 'back';
+
+const bringToFront = (objects: CanvasObject[], ids: Set<string>) => [
+  ...objects.filter((obj) => !ids.has(obj.id)),
+  ...objects.filter((obj) => ids.has(obj.id)),
+];
+
+const sendToBack = (objects: CanvasObject[], ids: Set<string>) => [
+  ...objects.filter((obj) => ids.has(obj.id)),
+  ...objects.filter((obj) => !ids.has(obj.id)),
+];
+
+// Each selected object swaps with the unselected one directly above it;
+// walking from the top keeps a selected block moving together.
+const bringForward = (objects: CanvasObject[], ids: Set<string>) => {
+  const next = [...objects];
+  for (let i = next.length - 2; i >= 0; i--) {
+    if (ids.has(next[i].id) && !ids.has(next[i + 1].id)) {
+      [next[i], next[i + 1]] = [next[i + 1], next[i]];
+    }
+  }
+  return next;
+};
+
+const sendBackward = (objects: CanvasObject[], ids: Set<string>) => bringForward([...objects].reverse(), ids).reverse();
+
+const COMMANDS: Record<ZOrderCommand, (objects: CanvasObject[], ids: Set<string>) => CanvasObject[]> = {
+  front: bringToFront,
+  forward: bringForward,
+  backward: sendBackward,
+  back: sendToBack,
+};
+
+/** Returns the reordered objects, or `null` when nothing would move. */
+export const applyZOrder = (objects: CanvasObject[], ids: Set<string>, command: ZOrderCommand) => {
+  const next = COMMANDS[command](objects, ids);
+  return next.some((obj, index) => obj !== objects[index]) ? next : null;
+};
+
+/** Moves one object to `toIndex` (an index into the array without it). */
+export const moveObjectTo = (objects: CanvasObject[], id: string, toIndex: number) => {
+  const obj = objects.find((o) => o.id === id);
+  if (!obj) return objects;
+  const rest = objects.filter((o) => o !== obj);
+  return [...rest.slice(0, toIndex), obj, ...rest.slice(toIndex)];
+};
@@ -0,0 +1,46 @@
+import { MutationCache, QueryCache, QueryClient } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+import { CanvasApiError } from '@/lib/canvas/api';
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    queryMeta: { errorMessage?: string };
+    mutationMeta: { errorMessage?: string };
+  }
+}
+
+const MAX_RETRIES = 3;
+
+export const shouldRetry = (failureCount: number, error: Error) =>
+  failureCount < MAX_RETRIES && (!(error instanceof CanvasApiError) || error.isTransient);
+
+export const retryDelay = (attempt: number) => Math.min(1000 * 2 ** attempt, 30000);
+
+const reportError = (error: Error, errorMessage?: string) => {
+  // Save conflicts are resolved through the conflict dialog instead.
+  if (error instanceof CanvasApiError && error.isConflict) return;
+  toast({
+    title: errorMessage ?? 'Something went wrong',
+    description: error.message,
+    variant: 'destructive',
+  });
+};
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => reportError(error, query.meta?.errorMessage),
+  }),
+  mutationCache: new MutationCache({
+    onError: (error, _variables, _context, mutation) => reportError(error, mutation.meta?.errorMessage),
+  }),
+  defaultOptions: {
+    queries: {
+      retry: shouldRetry,
+      retryDelay,
+      refetchOnWindowFocus: false,
+    },
+    mutations: {
+      retryDelay,
+    },
+  },
+});
@@ -1,5 +1,6 @@
-import { useState, useRef, useEffect } from 'react';
-import html2canvas from 'html2canvas';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
@@ -14,56 +15,247 @@ import {
 } from '@/components/ui/sheet';
 import { Card } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-
-type Tool = 'select' | 'rectangle' | 'circle' | 'text' | 'sticky' | 'line' | 'arrow' | 'pen' | 'eraser' | 'image' | 'diamond' | 'triangle';
-
-interface CanvasObject {
-  id: string;
-  type: Tool;
-  x: number;
-  y: number;
-  x2?: number;
-  y2?: number;
-  width?: number;
-  height?: number;
-  text?: string;
-  color: string;
-  points?: { x: number; y: number }[];
-}
-
-interface Template {
-  id: string;
-  name: string;
-  objects: CanvasObject[];
-}
+import ProjectsSheet from '@/components/canvas/ProjectsSheet';
+import { projectQueryOptions, useCreateProject, useSaveObjects } from '@/hooks/use-canvas-api';
+import { useAutosave } from '@/hooks/use-autosave';
+import { useBoardRepository } from '@/hooks/use-board-repository';
+import { useSyncQueue } from '@/hooks/use-sync-queue';
+import SaveStatusIndicator from '@/components/canvas/SaveStatusIndicator';
+import QuarantineNotice from '@/components/canvas/QuarantineNotice';
+import ConflictDialog from '@/components/canvas/ConflictDialog';
+import BoardFileImportDialog from '@/components/canvas/BoardFileImportDialog';
+import LayersPanel, { type ObjectFlag } from '@/components/canvas/LayersPanel';
+import ArrangeMenu from '@/components/canvas/ArrangeMenu';
+import TransformHandles, { type TransformFrame } from '@/components/canvas/TransformHandles';
+import StylePopover from '@/components/canvas/StylePopover';
+import InspectorPanel from '@/components/canvas/InspectorPanel';
+import TextContent from '@/components/canvas/TextContent';
+import TextEditor from '@/components/canvas/TextEditor';
+import ConnectorAnchors from '@/components/canvas/ConnectorAnchors';
+import LineHandles from '@/components/canvas/LineHandles';
+import LineLabels from '@/components/canvas/LineLabels';
+import ArrowheadMarker from '@/components/canvas/ArrowheadMarker';
+import CanvasRenderer from '@/components/canvas/CanvasRenderer';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import {
+  DRAFT_KEY,
+  boardKey,
+  deleteLocalBoard,
+  deletePendingSave,
+  getLocalBoard,
+  getPendingSave,
+  putLocalBoard,
+  putPendingSave,
+} from '@/lib/canvas/local-store';
+import { isConflictError, loadConflict, settlePendingSave, type ConflictResolution, type SyncConflict } from '@/lib/canvas/sync';
+import { serializeObjects, boardsEqual, findLossyObjects } from '@/lib/canvas/serialization';
+import type { Tool, CanvasObject, ConnectorBinding, QuarantinedObject, Renderer, Template } from '@/lib/canvas/types';
+import { DocumentError, createDocument } from '@/lib/canvas/document';
+import { createBoardFile, downloadBoardFile, readBoardFile, type ParsedBoardFile } from '@/lib/canvas/board-file';
+import { loadTemplates, saveTemplates } from '@/lib/canvas/templates';
+import {
+  boundsFromPoints,
+  createObjectId,
+  boundsAround,
+  getCombinedBounds,
+  getHandleScale,
+  getObjectBounds,
+  getObjectCenter,
+  isEditable,
+  isPointBased,
+  resizeObject,
+  rotateObject,
+  scaleObject,
+  translateObject,
+  type Bounds,
+  type Point,
+  type ResizeHandle,
+} from '@/lib/canvas/objects';
+import {
+  cloneWithNewIds,
+  expandToUnits,
+  groupObjects,
+  isGroupedBelow,
+  isInsideGroup,
+  ungroupObjects,
+} from '@/lib/canvas/groups';
+import { applyZOrder, moveObjectTo, type ZOrderCommand } from '@/lib/canvas/z-order';
+import { MAX_STROKE_WIDTH, resolveStyle, type ObjectStyle } from '@/lib/canvas/style';
+import { canHaveText, toggleTextFormat } from '@/lib/canvas/text';
+import { ANCHOR_SNAP_DISTANCE, findBinding, isConnector, syncConnectors, updateConnectors } from '@/lib/canvas/connectors';
+import { HIT_TOLERANCE, findObjectAt } from '@/lib/canvas/geometry';
+import {
+  addLineLabel,
+  constrainAngle,
+  getArrowheads,
+  getControlPoints,
+  insertWaypoint,
+  moveControlPoint,
+  removeEmptyLabels,
+  removeWaypoint,
+  updateLineLabel,
+} from '@/lib/canvas/lines';
+import { getLinePathData, getNearestLinePosition } from '@/lib/canvas/paths';
+import { createSpatialIndex } from '@/lib/canvas/spatial-index';
+import { createBenchmarkBoard } from '@/lib/canvas/benchmark';
+import { ERASE_COLOR, SELECTION_COLOR, renderBoardImage, type Highlight } from '@/lib/canvas/render';
+import NotFound from './NotFound';
 
 const COLORS = ['#8B5CF6', '#0EA5E9', '#F97316', '#10B981', '#F59E0B', '#EC4899'];
 
-const API_URL = 'https://functions.poehali.dev/162b3525-6c8b-4235-b923-aa2e333cf260';
+const LOCAL_SAVE_DELAY = 300;
+// Marquees smaller than this are plain clicks on the empty canvas.
+const MARQUEE_THRESHOLD = 3;
+// Shift-rotating snaps to multiples of this many degrees.
+const ROTATION_SNAP = 15;
+// Board units drawn past each edge of the viewport.
+const CULL_MARGIN = 200;
+// Remembers which renderer draws the board, as a preference of this browser rather than of the board.
+const RENDERER_KEY = 'canvas-renderer';
+
+const rotationTransform = (obj: CanvasObject) => (obj.rotation ? `rotate(${obj.rotation}deg)` : undefined);
+
+// Flips mirror the drawn shape only, so text and labels stay readable.
+const mirrorTransform = (obj: CanvasObject) =>
+  obj.flipX || obj.flipY ? `scale(${obj.flipX ? -1 : 1}, ${obj.flipY ? -1 : 1})` : undefined;
+
+const angleBetween = (center: Point, point: Point) => (Math.atan2(point.y - center.y, point.x - center.x) * 180) / Math.PI;
 
 const Index = () => {
   const { toast } = useToast();
+  const { projectId: routeProjectId } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const repository = useBoardRepository();
+  const createProjectMutation = useCreateProject();
+  const saveObjectsMutation = useSaveObjects();
+  const [boardStatus, setBoardStatus] = useState<'ready' | 'loading' | 'not-found' | 'error'>('ready');
   const [tool, setTool] = useState<Tool>('select');
   const [objects, setObjects] = useState<CanvasObject[]>([]);
-  const [selectedObject, setSelectedObject] = useState<string | null>(null);
-  const [dragging, setDragging] = useState<{ id: string; offsetX: number; offsetY: number } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Groups entered by double-clicking, outermost first; clicks select units inside the innermost one.
+  const [groupPath, setGroupPath] = useState<string[]>([]);
+  // Drags and resizes apply to `ids` and are computed from the objects as they
+  // were when the gesture started, so the whole gesture is one undo step.
+  const [dragging, setDragging] = useState<{ ids: string[]; startX: number; startY: number; origin: CanvasObject[] } | null>(null);
   const [history, setHistory] = useState<CanvasObject[][]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [currentProjectId, setCurrentProjectId] = useState<number | null>(null);
+  const [currentProjectName, setCurrentProjectName] = useState<string | null>(null);
   const [zoom, setZoom] = useState(100);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [editingText, setEditingText] = useState<string | null>(null);
-  const [drawingLine, setDrawingLine] = useState<{ x: number; y: number } | null>(null);
+  // The object under the pointer, which the select and eraser tools would pick.
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  // Where a line or arrow end would attach if it were dropped under the pointer.
+  const [bindingHint, setBindingHint] = useState<ConnectorBinding | null>(null);
+  const [drawingLine, setDrawingLine] = useState<{ start: Point; end: Point } | null>(null);
+  // The line label being typed into, and one being slid along its line.
+  const [editingLabel, setEditingLabel] = useState<{ id: string; index: number } | null>(null);
+  const [draggingLabel, setDraggingLabel] = useState<{ id: string; index: number; origin: CanvasObject[] } | null>(null);
+  // A line or arrow point being dragged: `line` is the line as it was when the drag began.
+  const [editingPoint, setEditingPoint] = useState<{ line: CanvasObject; index: number; origin: CanvasObject[] } | null>(null);
   const [penPoints, setPenPoints] = useState<{ x: number; y: number }[]>([]);
   const [isDrawingPen, setIsDrawingPen] = useState(false);
   const [userTemplates, setUserTemplates] = useState<Template[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantinedObject[]>([]);
+  // Templates loaded into this board, bundled with it when exported to a file.
+  const [boardTemplates, setBoardTemplates] = useState<Template[]>([]);
+  const [pendingImport, setPendingImport] = useState<ParsedBoardFile | null>(null);
+  const [isFileDragOver, setIsFileDragOver] = useState(false);
   const [currentColor, setCurrentColor] = useState('#8B5CF6');
+  // Style fields given to new objects besides `currentColor`.
+  const [currentStyle, setCurrentStyle] = useState<Partial<ObjectStyle>>({});
   const [showGrid, setShowGrid] = useState(true);
-  const [resizing, setResizing] = useState<{ id: string; corner: string; startX: number; startY: number; startWidth: number; startHeight: number } | null>(null);
-  const [copiedObject, setCopiedObject] = useState<CanvasObject | null>(null);
+  const [renderer, setRenderer] = useState<Renderer>(() => (localStorage.getItem(RENDERER_KEY) === 'canvas' ? 'canvas' : 'dom'));
+  const [showLayers, setShowLayers] = useState(false);
+  const [showInspector, setShowInspector] = useState(true);
+  const [resizing, setResizing] = useState<{ ids: string[]; handle: ResizeHandle; startX: number; startY: number; bounds: Bounds; origin: CanvasObject[] } | null>(null);
+  const [rotating, setRotating] = useState<{ ids: string[]; center: Point; startAngle: number; baseRotation: number | null; origin: CanvasObject[] } | null>(null);
+  const [marquee, setMarquee] = useState<{ start: { x: number; y: number }; end: { x: number; y: number }; additive: boolean } | null>(null);
+  const [copiedObjects, setCopiedObjects] = useState<CanvasObject[]>([]);
+  const [viewportSize, setViewportSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+  const [indexStore] = useState(createSpatialIndex);
   const canvasRef = useRef<HTMLDivElement>(null);
+  const boardFileInputRef = useRef<HTMLInputElement>(null);
+  const objectsRef = useRef(objects);
+  const routeProjectIdRef = useRef(routeProjectId);
+  // The local mirror write waiting out `LOCAL_SAVE_DELAY`, and the board it is for.
+  const pendingLocalWriteRef = useRef<{ key: string; write: () => void } | null>(null);
+  // `updated_at` of the server version the board on screen is based on.
+  const serverUpdatedAtRef = useRef<string | null>(null);
+  // Set by explicit saves and board-file imports, whose next save is read back to check it.
+  const verifyNextSaveRef = useRef(false);
+  const draftCheckedRef = useRef(false);
+
+  objectsRef.current = objects;
+  routeProjectIdRef.current = routeProjectId;
+  // Synced once per object list. A sync brings the index to exactly the list
+  // it is given, so whatever a discarded render synced is undone by the next.
+  const spatialIndex = useMemo(() => {
+    indexStore.sync(objects);
+    return indexStore;
+  }, [indexStore, objects]);
+
+  const flushLocalWrite = () => {
+    const pending = pendingLocalWriteRef.current;
+    pendingLocalWriteRef.current = null;
+    pending?.write();
+  };
+
+  const selectedSet = new Set(selectedIds);
+  // Ids can outlive their objects (after undo, for example), so everything
+  // acts on the objects that still exist.
+  const selectedObjects = objects.filter(obj => selectedSet.has(obj.id));
+  // Locked or hidden objects can still be selected from the Layers panel,
+  // but moves, resizes and deletes skip them.
+  const editableSelected = selectedObjects.filter(isEditable);
+  const editableSet = new Set(editableSelected.map(obj => obj.id));
+  const selectionBounds = getCombinedBounds(editableSelected);
+  // A single box is transformed in its own rotated frame; anything else uses
+  // the upright bounds of the selection.
+  const singleBox = editableSelected.length === 1 && !isPointBased(editableSelected[0]) ? editableSelected[0] : null;
+  // A single line or arrow is edited point by point instead.
+  const singleLine = editableSelected.length === 1 && isConnector(editableSelected[0]) ? editableSelected[0] : null;
+  const transformFrame: TransformFrame | null = singleBox
+    ? {
+        center: getObjectCenter(singleBox),
+        width: singleBox.width ?? 0,
+        height: singleBox.height ?? 0,
+        angle: singleBox.rotation ?? 0,
+      }
+    : selectionBounds && {
+        center: { x: (selectionBounds.minX + selectionBounds.maxX) / 2, y: (selectionBounds.minY + selectionBounds.maxY) / 2 },
+        width: selectionBounds.maxX - selectionBounds.minX,
+        height: selectionBounds.maxY - selectionBounds.minY,
+        angle: 0,
+      };
+  const bindingShape = (tool === 'line' || tool === 'arrow' || editingPoint) && bindingHint
+    ? objects.find(obj => obj.id === bindingHint.objectId)
+    : undefined;
+  // Hit testing slack stays the same on screen at every zoom level.
+  const hitTolerance = HIT_TOLERANCE / (zoom / 100);
+  // Only objects on screen (or just off it, so panning does not reveal gaps) are drawn.
+  const visibleObjects = spatialIndex.query({
+    minX: -pan.x / (zoom / 100) - CULL_MARGIN,
+    minY: -pan.y / (zoom / 100) - CULL_MARGIN,
+    maxX: (viewportSize.width - pan.x) / (zoom / 100) + CULL_MARGIN,
+    maxY: (viewportSize.height - pan.y) / (zoom / 100) + CULL_MARGIN,
+  });
+  const activeGroupBounds = groupPath.length > 0
+    ? getCombinedBounds(objects.filter(obj => isInsideGroup(obj, groupPath)))
+    : null;
+  const hoverColor = tool === 'eraser' ? ERASE_COLOR : SELECTION_COLOR;
+  // With the canvas renderer the DOM only draws objects being edited in place, with their editors and handles.
+  const domObjects = renderer === 'canvas'
+    ? visibleObjects.filter(obj => obj.id === editingText || obj.id === editingLabel?.id || obj.id === singleLine?.id)
+    : visibleObjects;
+  const highlights = new Map<string, Highlight>(selectedIds.map(id => [id, { kind: 'selected' }]));
+  if (hoveredId && !selectedSet.has(hoveredId) && (tool === 'select' || tool === 'eraser')) {
+    highlights.set(hoveredId, { kind: 'hovered', color: hoverColor });
+  }
 
   const addToHistory = (newObjects: CanvasObject[]) => {
     const newHistory = history.slice(0, historyIndex + 1);
@@ -72,6 +264,26 @@ const Index = () => {
     setHistoryIndex(newHistory.length - 1);
   };
 
+  const onlyEditable = (ids: string[]) => {
+    const idSet = new Set(ids);
+    return objects.filter(obj => idSet.has(obj.id) && isEditable(obj)).map(obj => obj.id);
+  };
+
+  const toBoardPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: (e.clientX - rect.left - pan.x) / (zoom / 100),
+      y: (e.clientY - rect.top - pan.y) / (zoom / 100),
+    };
+  };
+
+  // Hit tests only look at objects near the point; strokes can reach past an object's bounds.
+  const objectAt = (point: Point) =>
+    findObjectAt(spatialIndex.query(boundsAround(point, hitTolerance + MAX_STROKE_WIDTH)), point, hitTolerance);
+
+  const bindingAt = (point: Point) => findBinding(spatialIndex.query(boundsAround(point, ANCHOR_SNAP_DISTANCE)), point);
+
   const handleCanvasMouseDown = (e: React.MouseEvent) => {
     if (e.button === 1 || (e.button === 0 && e.altKey)) {
       setIsPanning(true);
@@ -79,7 +291,14 @@ const Index = () => {
       return;
     }
 
-    if (tool === 'select') return;
+    if (tool === 'select') {
+      const point = toBoardPoint(e);
+      if (!point) return;
+      const hit = objectAt(point);
+      if (hit) handleObjectMouseDown(e, hit.id);
+      else setMarquee({ start: point, end: point, additive: e.shiftKey || e.ctrlKey || e.metaKey });
+      return;
+    }
 
     const rect = canvasRef.current?.getBoundingClientRect();
     if (!rect) return;
@@ -88,7 +307,7 @@ const Index = () => {
     const y = (e.clientY - rect.top - pan.y) / (zoom / 100);
 
     if (tool === 'line' || tool === 'arrow') {
-      setDrawingLine({ x, y });
+      setDrawingLine({ start: { x, y }, end: { x, y } });
       return;
     }
 
@@ -99,14 +318,9 @@ const Index = () => {
     }
 
     if (tool === 'eraser') {
-      const clickedObj = objects.find(obj => {
-        if (obj.x <= x && x <= (obj.x + (obj.width || 0)) && obj.y <= y && y <= (obj.y + (obj.height || 0))) {
-          return true;
-        }
-        return false;
-      });
+      const clickedObj = objectAt({ x, y });
       if (clickedObj) {
-        const newObjects = objects.filter(o => o.id !== clickedObj.id);
+        const newObjects = updateConnectors(objects.filter(o => o.id !== clickedObj.id));
         setObjects(newObjects);
         addToHistory(newObjects);
       }
@@ -114,7 +328,7 @@ const Index = () => {
     }
 
     const newObject: CanvasObject = {
-      id: Date.now().toString(),
+      id: createObjectId(),
       type: tool,
       x,
       y,
@@ -122,6 +336,7 @@ const Index = () => {
       height: tool === 'rectangle' || tool === 'sticky' || tool === 'diamond' || tool === 'triangle' ? 100 : 100,
       text: tool === 'text' || tool === 'sticky' ? 'Double click to edit' : '',
       color: currentColor,
+      ...currentStyle,
     };
 
     const newObjects = [...objects, newObject];
@@ -130,36 +345,125 @@ const Index = () => {
     setTool('select');
   };
 
-  const handleObjectMouseDown = (e: React.MouseEvent, objId: string, corner?: string) => {
+  const handleObjectMouseDown = (e: React.MouseEvent, objId: string) => {
     if (tool !== 'select') return;
-    e.stopPropagation();
-    
-    setSelectedObject(objId);
     const obj = objects.find(o => o.id === objId);
-    if (!obj) return;
+    // Locked objects let clicks through to the canvas underneath.
+    if (!obj || obj.locked) return;
+    e.stopPropagation();
 
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return;
+    // Clicking outside the entered group leaves it.
+    const path = isInsideGroup(obj, groupPath) ? groupPath : [];
+    if (path !== groupPath) setGroupPath(path);
+    const unitIds = onlyEditable(expandToUnits(objects, [objId], path));
+    const current = path === groupPath ? selectedIds : [];
+
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      // The clicked unit is toggled as a whole: a partly selected group gets selected.
+      const currentSet = new Set(current);
+      const unitSet = new Set(unitIds);
+      setSelectedIds(unitIds.every(id => currentSet.has(id))
+        ? current.filter(id => !unitSet.has(id))
+        : [...new Set([...current, ...unitIds])]);
+      return;
+    }
 
-    const mouseX = (e.clientX - rect.left - pan.x) / (zoom / 100);
-    const mouseY = (e.clientY - rect.top - pan.y) / (zoom / 100);
-
-    if (corner) {
-      setResizing({ 
-        id: objId, 
-        corner, 
-        startX: mouseX, 
-        startY: mouseY, 
-        startWidth: obj.width || 100, 
-        startHeight: obj.height || 100 
-      });
+    const point = toBoardPoint(e);
+    if (!point) return;
+
+    // Dragging an unselected object selects just its unit first.
+    const ids = current.includes(objId) ? current : unitIds;
+    setSelectedIds(ids);
+    setDragging({ ids: onlyEditable(ids), startX: point.x, startY: point.y, origin: objects });
+  };
+
+  const handleCanvasDoubleClick = (e: React.MouseEvent) => {
+    const point = toBoardPoint(e);
+    if (!point) return;
+    const hit = objectAt(point);
+    if (hit) handleObjectDoubleClick(hit, point);
+  };
+
+  // `point` is where a line was double-clicked, which is where a new label goes.
+  const handleObjectDoubleClick = (obj: CanvasObject, point: Point) => {
+    if (tool !== 'select') return;
+    if (isInsideGroup(obj, groupPath) && isGroupedBelow(obj, groupPath)) {
+      const path = obj.groupIds!.slice(0, groupPath.length + 1);
+      setGroupPath(path);
+      setSelectedIds(onlyEditable(expandToUnits(objects, [obj.id], path)));
       return;
     }
+    if (canHaveText(obj)) setEditingText(obj.id);
+    if (isConnector(obj) && isEditable(obj)) addLabel(obj, getNearestLinePosition(obj, point));
+  };
+
+  const addLabel = (line: CanvasObject, position: number) => {
+    const updated = addLineLabel(line, position);
+    setObjects(objects.map(o => o.id === line.id ? updated : o));
+    setEditingLabel({ id: line.id, index: updated.labels!.length - 1 });
+  };
+
+  // Like text editing, the whole edit is one undo step; a label left empty is removed.
+  const finishLabelEditing = () => {
+    if (!editingLabel) return;
+    setEditingLabel(null);
+    const newObjects = objects.map(o => o.id === editingLabel.id ? removeEmptyLabels(o) : o);
+    setObjects(newObjects);
+    if (!boardsEqual(newObjects, history[historyIndex])) addToHistory(newObjects);
+  };
 
-    const offsetX = mouseX - obj.x;
-    const offsetY = mouseY - obj.y;
-    
-    setDragging({ id: objId, offsetX, offsetY });
+  // A label on the selected line slides along it; on any other line it picks up the line itself.
+  const handleLabelMouseDown = (e: React.MouseEvent, obj: CanvasObject, index: number) => {
+    if (tool !== 'select' || singleLine?.id !== obj.id) return;
+    e.stopPropagation();
+    setDraggingLabel({ id: obj.id, index, origin: objects });
+  };
+
+  const handleLabelDoubleClick = (e: React.MouseEvent, obj: CanvasObject, index: number) => {
+    e.stopPropagation();
+    if (tool === 'select' && isEditable(obj)) setEditingLabel({ id: obj.id, index });
+  };
+
+  const handleResizeMouseDown = (e: React.MouseEvent, handle: ResizeHandle) => {
+    e.stopPropagation();
+    const point = toBoardPoint(e);
+    if (!point || !selectionBounds) return;
+    setResizing({ ids: [...editableSet], handle, startX: point.x, startY: point.y, bounds: selectionBounds, origin: objects });
+  };
+
+  const handleRotateMouseDown = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const point = toBoardPoint(e);
+    if (!point || !transformFrame) return;
+    setRotating({
+      ids: [...editableSet],
+      center: transformFrame.center,
+      startAngle: angleBetween(transformFrame.center, point),
+      baseRotation: singleBox ? singleBox.rotation ?? 0 : null,
+      origin: objects,
+    });
+  };
+
+  const handleLinePointMouseDown = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    if (!singleLine) return;
+    setEditingPoint({ line: singleLine, index, origin: objects });
+  };
+
+  const handleWaypointInsert = (e: React.MouseEvent, index: number, point: Point) => {
+    e.stopPropagation();
+    if (!singleLine) return;
+    const line = insertWaypoint(singleLine, index, point);
+    setObjects(updateConnectors(objects.map(o => o.id === line.id ? line : o)));
+    setEditingPoint({ line, index: index + 1, origin: objects });
+  };
+
+  const removeLineWaypoint = (index: number) => {
+    if (!singleLine) return;
+    const line = removeWaypoint(singleLine, index);
+    const newObjects = updateConnectors(objects.map(o => o.id === line.id ? line : o));
+    setObjects(newObjects);
+    addToHistory(newObjects);
   };
 
   const handleCanvasMouseMove = (e: React.MouseEvent) => {
@@ -171,82 +475,147 @@ const Index = () => {
       return;
     }
 
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return;
-    const mouseX = (e.clientX - rect.left - pan.x) / (zoom / 100);
-    const mouseY = (e.clientY - rect.top - pan.y) / (zoom / 100);
+    const point = toBoardPoint(e);
+    if (!point) return;
 
-    if (resizing) {
-      const obj = objects.find(o => o.id === resizing.id);
-      if (!obj) return;
+    if (tool === 'line' || tool === 'arrow') {
+      setBindingHint(bindingAt(point));
+    }
 
-      const deltaX = mouseX - resizing.startX;
-      const deltaY = mouseY - resizing.startY;
+    const busy = dragging || resizing || rotating || editingPoint || draggingLabel || marquee;
+    if ((tool === 'select' || tool === 'eraser') && !busy) {
+      setHoveredId(objectAt(point)?.id ?? null);
+    }
+
+    if (drawingLine) {
+      setDrawingLine({ ...drawingLine, end: e.shiftKey ? constrainAngle(drawingLine.start, point) : point });
+    }
 
-      let newWidth = resizing.startWidth;
-      let newHeight = resizing.startHeight;
-      let newX = obj.x;
-      let newY = obj.y;
+    if (draggingLabel) {
+      const { id, index, origin } = draggingLabel;
+      setObjects(origin.map(o => o.id === id ? updateLineLabel(o, index, { position: getNearestLinePosition(o, point) }) : o));
+      return;
+    }
 
-      if (resizing.corner.includes('e')) newWidth = resizing.startWidth + deltaX;
-      if (resizing.corner.includes('w')) {
-        newWidth = resizing.startWidth - deltaX;
-        newX = obj.x + deltaX;
+    if (editingPoint) {
+      const { line, index, origin } = editingPoint;
+      const points = getControlPoints(line);
+      const isStart = index === 0;
+      const isEnd = index === points.length - 1;
+      // Shift keeps the segment to the neighbouring point at a snapped angle.
+      const target = e.shiftKey ? constrainAngle(points[isStart ? 1 : index - 1], point) : point;
+      let moved = moveControlPoint(line, index, target);
+      if (isStart || isEnd) {
+        // An end dropped on a shape attaches to it, and one dragged off lets go.
+        const found = bindingAt(target);
+        const other = isStart ? line.endBinding : line.startBinding;
+        const binding = found && found.objectId !== other?.objectId ? found : undefined;
+        setBindingHint(binding ?? null);
+        moved = isStart ? { ...moved, startBinding: binding } : { ...moved, endBinding: binding };
       }
-      if (resizing.corner.includes('s')) newHeight = resizing.startHeight + deltaY;
-      if (resizing.corner.includes('n')) {
-        newHeight = resizing.startHeight - deltaY;
-        newY = obj.y + deltaY;
+      setObjects(updateConnectors(origin.map(o => o.id === line.id ? moved : o)));
+      return;
+    }
+
+    if (resizing) {
+      const ids = new Set(resizing.ids);
+      const dx = point.x - resizing.startX;
+      const dy = point.y - resizing.startY;
+      const modifiers = { keepAspect: e.shiftKey, fromCenter: e.altKey };
+      const single = resizing.ids.length === 1 ? resizing.origin.find(o => ids.has(o.id)) : undefined;
+      if (single && !isPointBased(single)) {
+        // Resized along its own axes, so rotated boxes keep their shape.
+        setObjects(syncConnectors(
+          resizing.origin,
+          resizing.origin.map(o => o === single ? resizeObject(o, resizing.handle, dx, dy, modifiers) : o),
+        ));
+        return;
       }
+      const { anchor, sx, sy } = getHandleScale(resizing.bounds, resizing.handle, dx, dy, modifiers);
+      setObjects(syncConnectors(resizing.origin, resizing.origin.map(o => ids.has(o.id) ? scaleObject(o, anchor, sx, sy) : o)));
+      return;
+    }
 
-      setObjects(objects.map(o => 
-        o.id === resizing.id ? { ...o, x: newX, y: newY, width: Math.max(30, newWidth), height: Math.max(30, newHeight) } : o
-      ));
+    if (rotating) {
+      const ids = new Set(rotating.ids);
+      let delta = angleBetween(rotating.center, point) - rotating.startAngle;
+      if (e.shiftKey) {
+        const snap = (angle: number) => Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP;
+        // A single box snaps to absolute angles; a selection turns in whole steps.
+        delta = rotating.baseRotation === null ? snap(delta) : snap(rotating.baseRotation + delta) - rotating.baseRotation;
+      }
+      setObjects(syncConnectors(rotating.origin, rotating.origin.map(o => ids.has(o.id) ? rotateObject(o, rotating.center, delta) : o)));
       return;
     }
 
     if (dragging) {
-      const x = mouseX - dragging.offsetX;
-      const y = mouseY - dragging.offsetY;
+      const ids = new Set(dragging.ids);
+      const dx = point.x - dragging.startX;
+      const dy = point.y - dragging.startY;
+      setObjects(syncConnectors(dragging.origin, dragging.origin.map(o => ids.has(o.id) ? translateObject(o, dx, dy) : o)));
+    }
 
-      setObjects(objects.map(obj => 
-        obj.id === dragging.id ? { ...obj, x, y } : obj
-      ));
+    if (marquee) {
+      setMarquee({ ...marquee, end: point });
     }
 
     if (isDrawingPen) {
-      setPenPoints([...penPoints, { x: mouseX, y: mouseY }]);
+      setPenPoints([...penPoints, point]);
     }
   };
 
   const handleCanvasMouseUp = (e: React.MouseEvent) => {
     if (dragging) {
-      addToHistory(objects);
+      if (objects !== dragging.origin) addToHistory(objects);
       setDragging(null);
     }
     if (resizing) {
-      addToHistory(objects);
+      if (objects !== resizing.origin) addToHistory(objects);
       setResizing(null);
     }
+    if (rotating) {
+      if (objects !== rotating.origin) addToHistory(objects);
+      setRotating(null);
+    }
+    if (marquee) {
+      selectInArea(marquee.start, marquee.end, marquee.additive);
+      setMarquee(null);
+    }
     setIsPanning(false);
 
+    if (draggingLabel) {
+      if (objects !== draggingLabel.origin) addToHistory(objects);
+      setDraggingLabel(null);
+    }
+    if (editingPoint) {
+      if (objects !== editingPoint.origin) addToHistory(objects);
+      setEditingPoint(null);
+      setBindingHint(null);
+    }
+
     if (drawingLine) {
-      const rect = canvasRef.current?.getBoundingClientRect();
-      if (!rect) return;
-      const x2 = (e.clientX - rect.left - pan.x) / (zoom / 100);
-      const y2 = (e.clientY - rect.top - pan.y) / (zoom / 100);
+      const point = toBoardPoint(e);
+      if (!point) return;
+      const { start } = drawingLine;
+      const end = e.shiftKey ? constrainAngle(start, point) : point;
 
       const newObject: CanvasObject = {
-        id: Date.now().toString(),
+        id: createObjectId(),
         type: tool as 'line' | 'arrow',
-        x: drawingLine.x,
-        y: drawingLine.y,
-        x2,
-        y2,
+        x: start.x,
+        y: start.y,
+        x2: end.x,
+        y2: end.y,
         color: currentColor,
+        ...currentStyle,
       };
+      // Ends dropped on a shape attach to it.
+      const startBinding = bindingAt(start);
+      const endBinding = bindingAt(end);
+      if (startBinding) newObject.startBinding = startBinding;
+      if (endBinding && endBinding.objectId !== startBinding?.objectId) newObject.endBinding = endBinding;
 
-      const newObjects = [...objects, newObject];
+      const newObjects = updateConnectors([...objects, newObject]);
       setObjects(newObjects);
       addToHistory(newObjects);
       setDrawingLine(null);
@@ -255,12 +624,13 @@ const Index = () => {
 
     if (isDrawingPen && penPoints.length > 1) {
       const newObject: CanvasObject = {
-        id: Date.now().toString(),
+        id: createObjectId(),
         type: 'pen',
         x: Math.min(...penPoints.map(p => p.x)),
         y: Math.min(...penPoints.map(p => p.y)),
         points: penPoints,
         color: currentColor,
+        ...currentStyle,
       };
       const newObjects = [...objects, newObject];
       setObjects(newObjects);
@@ -275,13 +645,135 @@ const Index = () => {
     setZoom(Math.max(25, Math.min(200, zoom + delta)));
   };
 
+  const selectInArea = (start: { x: number; y: number }, end: { x: number; y: number }, additive: boolean) => {
+    const area = boundsFromPoints(start, end);
+    const isClick = area.maxX - area.minX < MARQUEE_THRESHOLD && area.maxY - area.minY < MARQUEE_THRESHOLD;
+    if (isClick && !additive) {
+      setGroupPath([]);
+      setSelectedIds([]);
+      return;
+    }
+    const touched = spatialIndex.query(area).filter(isEditable).map(obj => obj.id);
+    const hits = onlyEditable(expandToUnits(objects, touched, groupPath));
+    setSelectedIds(additive ? [...selectedIds, ...hits.filter(id => !selectedSet.has(id))] : hits);
+  };
+
+  const selectAll = () => {
+    setSelectedIds(objects.filter(obj => isEditable(obj) && isInsideGroup(obj, groupPath)).map(obj => obj.id));
+  };
+
+  const groupSelected = () => {
+    const result = groupObjects(objects, selectedSet, groupPath);
+    if (!result) return;
+    setObjects(result.objects);
+    addToHistory(result.objects);
+    toast({ title: 'Objects grouped' });
+  };
+
+  const ungroupSelected = () => {
+    const newObjects = ungroupObjects(objects, selectedSet, groupPath);
+    if (!newObjects) return;
+    setObjects(newObjects);
+    addToHistory(newObjects);
+    toast({ title: 'Group dissolved' });
+  };
+
+  const applyZOrderCommand = (command: ZOrderCommand) => {
+    const newObjects = applyZOrder(objects, selectedSet, command);
+    if (!newObjects) return;
+    setObjects(newObjects);
+    addToHistory(newObjects);
+  };
+
+  const flipSelected = (direction: 'horizontal' | 'vertical') => {
+    if (!selectionBounds) return;
+    const center = { x: (selectionBounds.minX + selectionBounds.maxX) / 2, y: (selectionBounds.minY + selectionBounds.maxY) / 2 };
+    const [sx, sy] = direction === 'horizontal' ? [-1, 1] : [1, -1];
+    const newObjects = syncConnectors(objects, objects.map(obj => editableSet.has(obj.id) ? scaleObject(obj, center, sx, sy) : obj));
+    setObjects(newObjects);
+    addToHistory(newObjects);
+  };
+
+  const moveLayer = (id: string, toIndex: number) => {
+    const newObjects = moveObjectTo(objects, id, toIndex);
+    if (newObjects.every((obj, index) => obj === objects[index])) return;
+    setObjects(newObjects);
+    addToHistory(newObjects);
+  };
+
+  // Returns how many objects changed; flags are removed rather than stored as `false`.
+  const setObjectFlag = (ids: Set<string>, flag: ObjectFlag, value: boolean) => {
+    const changed = objects.filter(obj => ids.has(obj.id) && !!obj[flag] !== value);
+    if (changed.length === 0) return 0;
+    const newObjects = objects.map(obj => changed.includes(obj) ? { ...obj, [flag]: value || undefined } : obj);
+    setObjects(newObjects);
+    addToHistory(newObjects);
+    if (flag === 'hidden' && value) setSelectedIds(selectedIds.filter(id => !ids.has(id)));
+    return changed.length;
+  };
+
+  const toggleObjectFlag = (id: string, flag: ObjectFlag) => {
+    const obj = objects.find(o => o.id === id);
+    if (obj) setObjectFlag(new Set([id]), flag, !obj[flag]);
+  };
+
+  const toggleLockSelected = () => {
+    if (selectedObjects.length === 0) return;
+    const lock = !selectedObjects.every(obj => obj.locked);
+    setObjectFlag(selectedSet, 'locked', lock);
+    toast({ title: lock ? 'Locked' : 'Unlocked' });
+  };
+
+  const toggleHiddenSelected = () => {
+    if (selectedObjects.length === 0) return;
+    const hide = !selectedObjects.every(obj => obj.hidden);
+    setObjectFlag(selectedSet, 'hidden', hide);
+    toast({ title: hide ? 'Hidden' : 'Shown' });
+  };
+
+  const unlockAll = () => {
+    const count = setObjectFlag(new Set(objects.map(obj => obj.id)), 'locked', false);
+    toast({ title: count > 0 ? `Unlocked ${count} object(s)` : 'Nothing is locked' });
+  };
+
+  const showAll = () => {
+    const count = setObjectFlag(new Set(objects.map(obj => obj.id)), 'hidden', false);
+    toast({ title: count > 0 ? `Showing ${count} hidden object(s)` : 'Nothing is hidden' });
+  };
+
+  // Selects exactly this object, entering its groups, and centres it on screen.
+  const selectLayer = (id: string) => {
+    const obj = objects.find(o => o.id === id);
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!obj) return;
+    setGroupPath(obj.groupIds ?? []);
+    setSelectedIds([id]);
+    if (!rect || obj.hidden) return;
+    const bounds = getObjectBounds(obj);
+    const scale = zoom / 100;
+    setPan({
+      x: rect.width / 2 - ((bounds.minX + bounds.maxX) / 2) * scale,
+      y: rect.height / 2 - ((bounds.minY + bounds.maxY) / 2) * scale,
+    });
+  };
+
+  const exitGroup = () => {
+    // The group being left becomes the selection, as in most editors.
+    setSelectedIds(objects.filter(obj => isInsideGroup(obj, groupPath)).map(obj => obj.id));
+    setGroupPath(groupPath.slice(0, -1));
+  };
+
   const deleteSelected = () => {
-    if (!selectedObject) return;
-    const newObjects = objects.filter(obj => obj.id !== selectedObject);
+    if (selectedObjects.length === 0) return;
+    if (editableSelected.length === 0) {
+      toast({ title: 'Locked and hidden objects cannot be deleted' });
+      return;
+    }
+    const newObjects = updateConnectors(objects.filter(obj => !editableSet.has(obj.id)));
     setObjects(newObjects);
     addToHistory(newObjects);
-    setSelectedObject(null);
-    toast({ title: 'Object deleted' });
+    setSelectedIds(selectedIds.filter(id => !editableSet.has(id)));
+    toast({ title: editableSelected.length === 1 ? 'Object deleted' : `${editableSelected.length} objects deleted` });
   };
 
   const undo = () => {
@@ -298,30 +790,221 @@ const Index = () => {
     }
   };
 
-  const saveProject = async () => {
+  // Replays skip the board named in the URL even before it has loaded, since
+  // its pending edits are pushed by autosave.
+  const sync = useSyncQueue(routeProjectId ? Number(routeProjectId) : currentProjectId);
+  const currentConflict = sync.conflicts.find(c => c.projectId === currentProjectId) ?? null;
+
+  // Reads a save back and warns when the board that comes back differs from
+  // the one sent. Autosaves are not checked, so they cost no extra download.
+  const verifySave = async (projectId: number, sent: CanvasObject[], updatedAt: string | null) => {
+    const loaded = await queryClient.fetchQuery(projectQueryOptions(repository, projectId));
+    // A later save has already replaced this one and is checked on its own.
+    if (loaded.project?.updated_at !== updatedAt || boardsEqual(sent, loaded.objects)) return;
+    const lossy = findLossyObjects(sent, loaded.objects);
+    toast({
+      title: 'The saved board does not load back unchanged',
+      description: lossy.length > 0
+        ? `${lossy.length} object(s) came back different. Export a board file to keep a copy.`
+        : 'Objects came back that were not saved. Export a board file to keep a copy.',
+      variant: 'destructive',
+    });
+  };
+
+  const persistBoard = async (snapshot: CanvasObject[]) => {
+    let projectId = currentProjectId;
+    const verify = verifyNextSaveRef.current;
+    verifyNextSaveRef.current = false;
+
+    if (!projectId) {
+      const name = currentProjectName || 'My Canvas Project';
+      projectId = await createProjectMutation.mutateAsync(name);
+      serverUpdatedAtRef.current = null;
+      setCurrentProjectId(projectId);
+      setCurrentProjectName(name);
+      navigate(`/board/${projectId}`, { replace: true });
+      deleteLocalBoard(DRAFT_KEY).catch(() => undefined);
+    }
+
     try {
-      let projectId = currentProjectId;
-      
-      if (!projectId) {
-        const createRes = await fetch(API_URL, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ action: 'create_project', name: 'My Canvas Project' })
-        });
-        const data = await createRes.json();
-        projectId = data.project_id;
-        setCurrentProjectId(projectId);
+      const payload = serializeObjects(snapshot);
+      const updatedAt = await saveObjectsMutation.mutateAsync({
+        projectId,
+        objects: payload,
+        baseUpdatedAt: serverUpdatedAtRef.current,
+      });
+      serverUpdatedAtRef.current = updatedAt;
+      settlePendingSave(repository.scope, projectId, snapshot, updatedAt).catch(() => undefined);
+      if (verify) verifySave(projectId, payload, updatedAt).catch(() => undefined);
+    } catch (error) {
+      if (isConflictError(error)) {
+        sync.addConflict(await loadConflict(repository, projectId, snapshot, currentProjectName, error.server));
       }
+      throw error;
+    }
+    return projectId;
+  };
+
+  // New boards are only written once the user saves them explicitly, so an
+  // empty scratch board never creates a server-side project on its own.
+  const autosave = useAutosave({
+    value: objects,
+    save: persistBoard,
+    enabled: currentProjectId !== null && !currentConflict,
+    paused: !!dragging || !!resizing || !!rotating || !!editingPoint || !!draggingLabel || !!drawingLine || isDrawingPen,
+    needsNetwork: repository.kind === 'remote',
+  });
+
+  const resetBoard = (
+    newObjects: CanvasObject[],
+    options?: { dirty?: boolean; quarantined?: QuarantinedObject[] },
+  ) => {
+    const skipped = options?.quarantined ?? [];
+    if (skipped.length > 0) {
+      toast({
+        title: `${skipped.length} object(s) could not be loaded`,
+        description: 'They are kept aside so you can copy them before discarding.',
+        variant: 'destructive',
+      });
+    }
+    setQuarantined(skipped);
+    setBoardTemplates([]);
+    setObjects(newObjects);
+    setHistory([newObjects]);
+    setHistoryIndex(0);
+    setSelectedIds([]);
+    setGroupPath([]);
+    setEditingText(null);
+    autosave.markSaved(options?.dirty ? null : newObjects);
+  };
+
+  const showBoard = (
+    projectId: number,
+    name: string | null,
+    newObjects: CanvasObject[],
+    serverUpdatedAt: string | null,
+    dirty: boolean,
+    quarantinedObjects: QuarantinedObject[] = [],
+  ) => {
+    resetBoard(newObjects, { dirty, quarantined: quarantinedObjects });
+    serverUpdatedAtRef.current = serverUpdatedAt;
+    setCurrentProjectId(projectId);
+    setCurrentProjectName(name);
+    setBoardStatus('ready');
+  };
 
-      await fetch(API_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'save_objects', project_id: projectId, objects })
+  const saveProject = async () => {
+    const lossy = findLossyObjects(objects, serializeObjects(objects));
+    if (lossy.length > 0) {
+      toast({
+        title: `${lossy.length} object(s) contain values that cannot be saved exactly`,
+        variant: 'destructive',
       });
-      
+    }
+
+    try {
+      verifyNextSaveRef.current = true;
+      await autosave.saveNow();
       toast({ title: 'Project saved successfully!' });
     } catch (error) {
-      toast({ title: 'Failed to save project', variant: 'destructive' });
+      // Already reported by the mutation cache or the conflict dialog.
+    }
+  };
+
+  // The local copy is shown straight away; the server copy replaces it only
+  // if it is newer and the user has not started editing in the meantime.
+  // A load finishing after the user has moved on to another board must not
+  // show its board there, or autosave would write it to the wrong project.
+  const isRouteProject = (projectId: number) => Number(routeProjectIdRef.current) === projectId;
+
+  const loadProject = async (projectId: number) => {
+    const local = await getLocalBoard(boardKey(repository.scope, projectId)).catch(() => undefined);
+    const pending = await getPendingSave(repository.scope, projectId).catch(() => undefined);
+    if (!isRouteProject(projectId)) return;
+
+    if (pending) {
+      // Unsynced edits are pushed by autosave, which reports any conflict.
+      showBoard(projectId, local?.name ?? null, local?.objects ?? pending.objects, pending.baseUpdatedAt, true, local?.quarantined);
+      return;
+    }
+    if (local) {
+      showBoard(projectId, local.name, local.objects, local.serverUpdatedAt, false, local.quarantined);
+    } else {
+      setBoardStatus('loading');
+    }
+
+    try {
+      const loaded = await queryClient.fetchQuery(projectQueryOptions(repository, projectId));
+      if (!isRouteProject(projectId)) return;
+      const { project } = loaded;
+      if (!project) {
+        deleteLocalBoard(boardKey(repository.scope, projectId)).catch(() => undefined);
+        setBoardStatus('not-found');
+        return;
+      }
+      if (local && (project.updated_at === local.serverUpdatedAt || objectsRef.current !== local.objects)) return;
+      showBoard(project.id, project.name, loaded.objects, project.updated_at, false, loaded.quarantined);
+    } catch (error) {
+      if (!local && isRouteProject(projectId)) setBoardStatus('error');
+    }
+  };
+
+  const openProject = (projectId: number) => {
+    navigate(`/board/${projectId}`);
+  };
+
+  const newProject = () => {
+    const name = prompt('Enter project name:', 'My Canvas Project');
+    if (!name) return;
+    resetBoard([]);
+    serverUpdatedAtRef.current = null;
+    setCurrentProjectId(null);
+    setCurrentProjectName(name);
+    navigate('/');
+  };
+
+  const handleProjectRenamed = (projectId: number, name: string, updatedAt: string | null) => {
+    if (projectId !== currentProjectId) return;
+    setCurrentProjectName(name);
+    serverUpdatedAtRef.current = updatedAt;
+  };
+
+  const handleProjectDeleted = (projectId: number) => {
+    deleteLocalBoard(boardKey(repository.scope, projectId)).catch(() => undefined);
+    deletePendingSave(repository.scope, projectId).catch(() => undefined);
+    if (projectId !== currentProjectId) return;
+    resetBoard([]);
+    serverUpdatedAtRef.current = null;
+    setCurrentProjectId(null);
+    setCurrentProjectName(null);
+    navigate('/');
+  };
+
+  const resolveConflict = async (conflict: SyncConflict, resolution: ConflictResolution) => {
+    try {
+      const result = await sync.resolve(conflict, resolution);
+      if (conflict.projectId !== currentProjectId) {
+        toast({ title: `Conflict in "${result.name ?? conflict.name ?? 'board'}" resolved` });
+        return;
+      }
+      if (result.projectId === null) {
+        handleProjectDeleted(conflict.projectId);
+        return;
+      }
+      if (resolution === 'keep-server') {
+        showBoard(result.projectId, result.name, result.objects, result.updatedAt, false, conflict.server.quarantined);
+        return;
+      }
+      // Edits made while the dialog was open stay dirty and are autosaved next.
+      autosave.markSaved(conflict.localObjects);
+      serverUpdatedAtRef.current = result.updatedAt;
+      if (result.projectId !== currentProjectId) {
+        setCurrentProjectId(result.projectId);
+        setCurrentProjectName(result.name);
+        navigate(`/board/${result.projectId}`, { replace: true });
+      }
+    } catch (error) {
+      toast({ title: 'Failed to resolve conflict', variant: 'destructive' });
     }
   };
 
@@ -331,28 +1014,88 @@ const Index = () => {
     const newTemplate: Template = {
       id: Date.now().toString(),
       name,
-      objects: JSON.parse(JSON.stringify(objects)),
+      document: createDocument(serializeObjects(objects), { name }),
     };
     const newTemplates = [...userTemplates, newTemplate];
     setUserTemplates(newTemplates);
-    localStorage.setItem('canvas-templates', JSON.stringify(newTemplates));
+    saveTemplates(newTemplates);
     toast({ title: 'Template saved!' });
   };
 
   const loadTemplate = (template: Template) => {
-    const newObjects = JSON.parse(JSON.stringify(template.objects));
+    const newObjects = serializeObjects(template.document.objects);
     setObjects(newObjects);
     addToHistory(newObjects);
+    setBoardTemplates((prev) => [...prev.filter((t) => t.id !== template.id), template]);
     toast({ title: `Template "${template.name}" loaded!` });
   };
 
-  const exportToPNG = async () => {
-    if (!canvasRef.current) return;
+  const exportBoardFile = () => {
+    const board = createDocument(serializeObjects(objects), { name: currentProjectName });
+    downloadBoardFile(createBoardFile(board, { showGrid }, boardTemplates));
+    toast({ title: 'Board file downloaded!' });
+  };
+
+  const openBoardFile = async (file: File) => {
     try {
-      const canvas = await html2canvas(canvasRef.current, {
-        backgroundColor: showGrid ? '#F8F9FA' : '#FFFFFF',
-        scale: 2,
+      setPendingImport(await readBoardFile(file));
+    } catch (error) {
+      toast({
+        title: `Could not open ${file.name}`,
+        description: error instanceof DocumentError ? error.message : undefined,
+        variant: 'destructive',
       });
+    }
+  };
+
+  const importBoardFile = (file: ParsedBoardFile) => {
+    const newObjects = file.document.objects;
+    setObjects(newObjects);
+    addToHistory(newObjects);
+    setSelectedIds([]);
+    setGroupPath([]);
+    setEditingText(null);
+    setShowGrid(file.settings.showGrid);
+    setBoardTemplates(file.templates);
+    setQuarantined((prev) => [...prev, ...file.quarantined]);
+    if (currentProjectId === null && !currentProjectName) setCurrentProjectName(file.document.board.name);
+    if (file.templates.length > 0) {
+      const importedIds = new Set(file.templates.map((t) => t.id));
+      const newTemplates = [...userTemplates.filter((t) => !importedIds.has(t.id)), ...file.templates];
+      setUserTemplates(newTemplates);
+      saveTemplates(newTemplates);
+    }
+    setPendingImport(null);
+    verifyNextSaveRef.current = true;
+    toast({ title: `Opened ${file.fileName}` });
+  };
+
+  const handleFileDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsFileDragOver(true);
+  };
+
+  const handleFileDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsFileDragOver(false);
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    e.preventDefault();
+    setIsFileDragOver(false);
+    openBoardFile(file);
+  };
+
+  const exportToPNG = () => {
+    try {
+      const canvas = renderBoardImage(objects, { scale: 2, showGrid });
+      if (!canvas) {
+        toast({ title: 'Nothing to export' });
+        return;
+      }
       const link = document.createElement('a');
       link.download = `canvas-${Date.now()}.png`;
       link.href = canvas.toDataURL();
@@ -364,45 +1107,198 @@ const Index = () => {
   };
 
   const copyObject = () => {
-    if (!selectedObject) return;
-    const obj = objects.find(o => o.id === selectedObject);
-    if (obj) {
-      setCopiedObject(obj);
-      toast({ title: 'Object copied' });
-    }
+    if (selectedObjects.length === 0) return;
+    setCopiedObjects(selectedObjects);
+    toast({ title: selectedObjects.length === 1 ? 'Object copied' : `${selectedObjects.length} objects copied` });
   };
 
   const pasteObject = () => {
-    if (!copiedObject) return;
-    const newObj = {
-      ...copiedObject,
-      id: Date.now().toString(),
-      x: copiedObject.x + 20,
-      y: copiedObject.y + 20,
-    };
-    const newObjects = [...objects, newObj];
+    if (copiedObjects.length === 0) return;
+    const pasted = cloneWithNewIds(copiedObjects, groupPath).map(obj => translateObject(obj, 20, 20));
+    const newObjects = [...objects, ...pasted];
     setObjects(newObjects);
     addToHistory(newObjects);
-    setSelectedObject(newObj.id);
-    toast({ title: 'Object pasted' });
+    setSelectedIds(pasted.map(obj => obj.id));
+    toast({ title: pasted.length === 1 ? 'Object pasted' : `${pasted.length} objects pasted` });
   };
 
   const changeSelectedColor = (color: string) => {
-    if (!selectedObject) return;
+    if (editableSelected.length === 0) return;
     const newObjects = objects.map(obj => 
-      obj.id === selectedObject ? { ...obj, color } : obj
+      editableSet.has(obj.id) ? { ...obj, color } : obj
     );
     setObjects(newObjects);
     addToHistory(newObjects);
   };
 
+  // Live edits (slider drags, the colour picker) pass `commit: false`; the
+  // committing call records everything since the last undo step as one.
+  const updateSelected = (update: (obj: CanvasObject) => CanvasObject, commit: boolean) => {
+    if (editableSelected.length === 0) return;
+    const newObjects = syncConnectors(objects, objects.map(obj => editableSet.has(obj.id) ? update(obj) : obj));
+    setObjects(newObjects);
+    if (commit && !boardsEqual(newObjects, history[historyIndex])) addToHistory(newObjects);
+  };
+
+  // The whole edit session is one undo step.
+  const finishTextEditing = () => {
+    setEditingText(null);
+    if (!boardsEqual(objects, history[historyIndex])) addToHistory(objects);
+  };
+
+  // The text of a text box, sticky note or shape label, or its editor while it is being edited.
+  // `borderWidth` is the CSS border the text is positioned inside of.
+  const renderObjectText = (obj: CanvasObject, borderWidth: number) => {
+    if (editingText === obj.id) {
+      return (
+        <TextEditor
+          obj={obj}
+          borderWidth={borderWidth}
+          onChange={text => setObjects(objects.map(o => o.id === obj.id ? { ...o, text } : o))}
+          onToggleFormat={format => setObjects(objects.map(o => o.id === obj.id ? toggleTextFormat(o, format) : o))}
+          onDone={finishTextEditing}
+        />
+      );
+    }
+    return canHaveText(obj) && obj.text ? <TextContent obj={obj} borderWidth={borderWidth} /> : null;
+  };
+
+  // Styles the editable selection; with nothing selected it sets the style of new objects.
+  const applyStyle = (patch: Partial<ObjectStyle>, commit: boolean) => {
+    if (selectedObjects.length === 0) {
+      setCurrentStyle({ ...currentStyle, ...patch });
+      return;
+    }
+    updateSelected(obj => ({ ...obj, ...patch }), commit);
+  };
+
   useEffect(() => {
-    const saved = localStorage.getItem('canvas-templates');
-    if (saved) {
-      setUserTemplates(JSON.parse(saved));
+    localStorage.setItem(RENDERER_KEY, renderer);
+  }, [renderer]);
+
+  // The canvas is not rendered while a missing board is shown, so this reattaches when it comes back.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [boardStatus]);
+
+  // Called with the latest state whenever the route changes; held in a ref so
+  // the effect below depends on the route alone.
+  const openRouteRef = useRef<(routeProjectId: string | undefined) => void>(() => undefined);
+  openRouteRef.current = (routeProjectId) => {
+    const isFirstLoad = !draftCheckedRef.current;
+    draftCheckedRef.current = true;
+
+    if (!routeProjectId) {
+      setBoardStatus('ready');
+      // Going back home from a board opens the draft, so later edits and saves
+      // cannot land in the board that was open.
+      const leftProject = currentProjectId !== null;
+      if (leftProject) {
+        resetBoard([]);
+        serverUpdatedAtRef.current = null;
+        setCurrentProjectId(null);
+        setCurrentProjectName(null);
+      }
+      // `?benchmark=10000` fills the draft board with that many generated objects.
+      const benchmarkSize = import.meta.env.DEV ? Number(new URLSearchParams(window.location.search).get('benchmark')) : 0;
+      if (isFirstLoad && benchmarkSize > 0) {
+        resetBoard(createBenchmarkBoard(benchmarkSize));
+        toast({ title: `Generated ${benchmarkSize} objects` });
+        return;
+      }
+      if (isFirstLoad || leftProject) {
+        getLocalBoard(DRAFT_KEY)
+          .then((draft) => {
+            if (!draft || routeProjectIdRef.current || objectsRef.current.length > 0) return;
+            resetBoard(draft.objects, { dirty: draft.objects.length > 0, quarantined: draft.quarantined });
+            setCurrentProjectName(draft.name);
+          })
+          .catch(() => undefined);
+      }
+      return;
+    }
+    const projectId = Number(routeProjectId);
+    if (!Number.isInteger(projectId) || projectId <= 0) {
+      setBoardStatus('not-found');
+      return;
     }
+    // The board we just created or loaded is already on screen.
+    if (projectId === currentProjectId) return;
+    loadProject(projectId);
+  };
+
+  useEffect(() => {
+    openRouteRef.current(routeProjectId);
+  }, [routeProjectId]);
+
+  // Every change is mirrored to IndexedDB so the board survives reloads and
+  // lost connectivity; unsaved changes to a project also join the sync queue.
+  // Writes wait for typing to settle, but one still waiting is flushed rather
+  // than dropped when the board changes or the page is hidden or closed.
+  useEffect(() => {
+    const key = boardKey(repository.scope, currentProjectId);
+    if (pendingLocalWriteRef.current?.key !== key || boardStatus !== 'ready') flushLocalWrite();
+    if (boardStatus !== 'ready') return;
+    const write = () => {
+      const stored = serializeObjects(objects);
+      const writes = [
+        putLocalBoard({
+          key,
+          projectId: currentProjectId,
+          name: currentProjectName,
+          objects: stored,
+          quarantined,
+          serverUpdatedAt: serverUpdatedAtRef.current,
+          savedAt: Date.now(),
+        }),
+      ];
+      if (currentProjectId !== null && autosave.isDirty) {
+        writes.push(putPendingSave({
+          scope: repository.scope,
+          projectId: currentProjectId,
+          objects: stored,
+          baseUpdatedAt: serverUpdatedAtRef.current,
+          queuedAt: Date.now(),
+        }));
+      }
+      Promise.all(writes).catch((error) => console.error('Failed to store board locally:', error));
+    };
+    pendingLocalWriteRef.current = { key, write };
+    const timer = setTimeout(flushLocalWrite, LOCAL_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [objects, quarantined, currentProjectId, currentProjectName, boardStatus, autosave.isDirty, repository.scope]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushLocalWrite();
+    };
+    window.addEventListener('pagehide', flushLocalWrite);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flushLocalWrite);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flushLocalWrite();
+    };
   }, []);
 
+  useEffect(() => {
+    const { templates, skipped, quarantined: dropped } = loadTemplates();
+    setUserTemplates(templates);
+    if (skipped + dropped > 0) {
+      toast({
+        title: 'Some saved templates could not be fully loaded',
+        description: `${skipped} template(s) skipped, ${dropped} invalid object(s) dropped.`,
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
   useEffect(() => {
     const handleWheel = (e: WheelEvent) => {
       if (e.ctrlKey || e.metaKey) {
@@ -412,6 +1308,10 @@ const Index = () => {
     };
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      const isTyping =
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        (e.target instanceof HTMLElement && e.target.isContentEditable);
       if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
         e.preventDefault();
         undo();
@@ -420,7 +1320,7 @@ const Index = () => {
         e.preventDefault();
         redo();
       }
-      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedObject && !editingText) {
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.length > 0 && !editingText && !isTyping) {
         e.preventDefault();
         deleteSelected();
       }
@@ -428,14 +1328,54 @@ const Index = () => {
         e.preventDefault();
         saveProject();
       }
-      if ((e.ctrlKey || e.metaKey) && e.key === 'c' && selectedObject) {
+      if ((e.ctrlKey || e.metaKey) && e.key === 'c' && selectedIds.length > 0 && !isTyping) {
         e.preventDefault();
         copyObject();
       }
-      if ((e.ctrlKey || e.metaKey) && e.key === 'v' && copiedObject) {
+      if ((e.ctrlKey || e.metaKey) && e.key === 'v' && copiedObjects.length > 0 && !isTyping) {
         e.preventDefault();
         pasteObject();
       }
+      if ((e.ctrlKey || e.metaKey) && e.key === 'a' && !editingText && !isTyping) {
+        e.preventDefault();
+        selectAll();
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g' && !isTyping) {
+        e.preventDefault();
+        if (e.shiftKey) ungroupSelected();
+        else groupSelected();
+      }
+      if ((e.ctrlKey || e.metaKey) && (e.code === 'BracketRight' || e.code === 'BracketLeft') && !isTyping) {
+        e.preventDefault();
+        const raise = e.code === 'BracketRight';
+        if (e.shiftKey) applyZOrderCommand(raise ? 'front' : 'back');
+        else applyZOrderCommand(raise ? 'forward' : 'backward');
+      }
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'l' && !isTyping) {
+        e.preventDefault();
+        toggleLockSelected();
+      }
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'h' && !isTyping) {
+        e.preventDefault();
+        toggleHiddenSelected();
+      }
+      if (e.shiftKey && !e.ctrlKey && !e.metaKey && !e.altKey && (e.code === 'KeyH' || e.code === 'KeyV') && !isTyping) {
+        e.preventDefault();
+        flipSelected(e.code === 'KeyH' ? 'horizontal' : 'vertical');
+      }
+      if (e.key === 'Enter' && !isTyping && !editingText && editableSelected.length === 1 && canHaveText(editableSelected[0])) {
+        e.preventDefault();
+        setEditingText(editableSelected[0].id);
+      }
+      if (e.key === 'Enter' && !isTyping && !editingLabel && singleLine) {
+        e.preventDefault();
+        if (singleLine.labels?.length) setEditingLabel({ id: singleLine.id, index: 0 });
+        else addLabel(singleLine, 0.5);
+      }
+      if (e.key === 'Escape' && !editingText) {
+        if (groupPath.length > 0) exitGroup();
+        else setSelectedIds([]);
+      }
     };
 
     const canvas = canvasRef.current;
@@ -445,51 +1385,64 @@ const Index = () => {
       canvas?.removeEventListener('wheel', handleWheel);
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [zoom, selectedObject, historyIndex, objects, currentProjectId, editingText, copiedObject]);
+  }, [zoom, selectedIds, groupPath, historyIndex, objects, currentProjectId, editingText, editingLabel, copiedObjects]);
+
+  if (boardStatus === 'not-found') {
+    return <NotFound message="This board does not exist or has been deleted" />;
+  }
+
+  if (boardStatus === 'error') {
+    return (
+      <NotFound code="500" message="The board could not be loaded">
+        <Button className="mb-4" onClick={() => loadProject(Number(routeProjectId))}>
+          Try again
+        </Button>
+      </NotFound>
+    );
+  }
 
   return (
     <div className="h-screen w-screen flex flex-col overflow-hidden bg-[#F8F9FA]">
+      <ConflictDialog conflict={currentConflict ?? sync.conflicts[0] ?? null} onResolve={resolveConflict} />
+      <BoardFileImportDialog file={pendingImport} onConfirm={importBoardFile} onCancel={() => setPendingImport(null)} />
       <header className="h-14 bg-white border-b border-gray-200 flex items-center justify-between px-4">
         <div className="flex items-center gap-4">
           <h1 className="text-xl font-semibold text-gray-900">Canvas Board</h1>
+          {currentProjectName && (
+            <span className="text-sm text-muted-foreground truncate max-w-[200px]">{currentProjectName}</span>
+          )}
+          <SaveStatusIndicator status={autosave.status} />
+          <QuarantineNotice items={quarantined} onDiscard={() => setQuarantined([])} />
           
-          <Sheet>
-            <SheetTrigger asChild>
-              <Button variant="ghost" size="sm" className="gap-2">
-                <Icon name="Folder" size={16} />
-                Projects
-              </Button>
-            </SheetTrigger>
-            <SheetContent side="left" className="w-80">
-              <SheetHeader>
-                <SheetTitle>Projects</SheetTitle>
-              </SheetHeader>
-              <div className="mt-6 space-y-2">
-                <Card className="p-4 cursor-pointer hover:bg-accent transition-colors">
-                  <div className="flex items-center gap-3">
-                    <div className="w-12 h-12 rounded bg-primary/10 flex items-center justify-center">
-                      <Icon name="Layers" size={20} className="text-primary" />
-                    </div>
-                    <div>
-                      <h3 className="font-medium">Product Roadmap</h3>
-                      <p className="text-sm text-muted-foreground">Updated 2h ago</p>
-                    </div>
-                  </div>
-                </Card>
-                <Card className="p-4 cursor-pointer hover:bg-accent transition-colors">
-                  <div className="flex items-center gap-3">
-                    <div className="w-12 h-12 rounded bg-blue-100 flex items-center justify-center">
-                      <Icon name="Users" size={20} className="text-blue-600" />
-                    </div>
-                    <div>
-                      <h3 className="font-medium">Team Brainstorm</h3>
-                      <p className="text-sm text-muted-foreground">Updated 1d ago</p>
-                    </div>
-                  </div>
-                </Card>
-              </div>
-            </SheetContent>
-          </Sheet>
+          <ProjectsSheet
+            currentProjectId={currentProjectId}
+            onOpen={openProject}
+            onCreate={newProject}
+            onRenamed={handleProjectRenamed}
+            onDeleted={handleProjectDeleted}
+          />
+
+          <ArrangeMenu
+            hasSelection={selectedObjects.length > 0}
+            onZOrder={applyZOrderCommand}
+            onGroup={groupSelected}
+            onUngroup={ungroupSelected}
+            onToggleLock={toggleLockSelected}
+            onToggleHidden={toggleHiddenSelected}
+            onFlip={flipSelected}
+            onUnlockAll={unlockAll}
+            onShowAll={showAll}
+          />
+
+          <Button variant={showLayers ? 'secondary' : 'ghost'} size="sm" className="gap-2" onClick={() => setShowLayers(!showLayers)}>
+            <Icon name="Layers" size={16} />
+            Layers
+          </Button>
+
+          <Button variant={showInspector ? 'secondary' : 'ghost'} size="sm" className="gap-2" onClick={() => setShowInspector(!showInspector)}>
+            <Icon name="SlidersHorizontal" size={16} />
+            Properties
+          </Button>
 
           <Sheet>
             <SheetTrigger asChild>
@@ -609,12 +1562,23 @@ const Index = () => {
               value={currentColor} 
               onChange={(e) => {
                 setCurrentColor(e.target.value);
-                if (selectedObject) {
+                if (selectedObjects.length > 0) {
                   changeSelectedColor(e.target.value);
                 }
               }}
               className="w-10 h-10 rounded cursor-pointer border-2 border-gray-200"
-              title={selectedObject ? 'Change selected object color' : 'Set color for new objects'}
+              title={selectedObjects.length > 0 ? 'Change selected objects color' : 'Set color for new objects'}
+            />
+            <StylePopover
+              sample={editableSelected[0] ?? {
+                id: '',
+                type: tool === 'select' ? 'rectangle' : tool,
+                x: 0,
+                y: 0,
+                color: currentColor,
+                ...currentStyle,
+              }}
+              onChange={applyStyle}
             />
           </div>
 
@@ -635,7 +1599,30 @@ const Index = () => {
                   Export as PNG
                 </Button>
                 <p className="text-sm text-muted-foreground">
-                  Download your canvas as a high-quality PNG image
+                  Download the whole board, cropped to its contents, as a high-quality PNG image
+                </p>
+                <Separator />
+                <Button onClick={exportBoardFile} variant="outline" className="w-full gap-2">
+                  <Icon name="FileDown" size={16} />
+                  Download board file
+                </Button>
+                <Button onClick={() => boardFileInputRef.current?.click()} variant="outline" className="w-full gap-2">
+                  <Icon name="FileUp" size={16} />
+                  Open board file
+                </Button>
+                <input
+                  ref={boardFileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) openBoardFile(file);
+                  }}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Save the whole board as a .canvas.json file to back it up or move it to another machine. You can also drop a board file onto the canvas.
                 </p>
               </div>
             </SheetContent>
@@ -662,6 +1649,28 @@ const Index = () => {
                     {showGrid ? 'On' : 'Off'}
                   </Button>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Renderer</span>
+                  <div className="flex gap-1">
+                    <Button
+                      variant={renderer === 'dom' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setRenderer('dom')}
+                    >
+                      DOM
+                    </Button>
+                    <Button
+                      variant={renderer === 'canvas' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setRenderer('canvas')}
+                    >
+                      Canvas
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The canvas renderer draws the whole board into a single canvas element, which keeps large boards responsive.
+                </p>
               </div>
             </SheetContent>
           </Sheet>
@@ -846,11 +1855,14 @@ const Index = () => {
                 <div>
                   <h3 className="font-semibold mb-3">Tools</h3>
                   <div className="space-y-2 text-sm">
-                    <p><strong>Select:</strong> Click and drag objects</p>
+                    <p><strong>Select:</strong> Click and drag objects, or drag on empty canvas to select an area</p>
                     <p><strong>Shapes:</strong> Click to place rectangle, circle, diamond, triangle</p>
                     <p><strong>Sticky Note:</strong> Add text notes</p>
                     <p><strong>Text:</strong> Add plain text</p>
-                    <p><strong>Line/Arrow:</strong> Click start, drag to end point</p>
+                    <p><strong>Line/Arrow:</strong> Click start, drag to end point; hold Shift to snap the angle</p>
+                    <p><strong>Editing lines:</strong> Select a line to drag its ends, drag the small middle handles to add waypoints, double-click a waypoint to remove it. Arrowheads are set in Properties</p>
+                    <p><strong>Line labels:</strong> Double-click a line (or press Enter) to add a label, drag it along the selected line, clear its text to remove it</p>
+                    <p><strong>Connectors:</strong> Start or end a line on a shape to attach it to the centre or a side; it follows the shape until dragged away. Pick straight, elbow or curved routing in Properties</p>
                     <p><strong>Pen:</strong> Draw freehand by clicking and dragging</p>
                     <p><strong>Eraser:</strong> Click objects to remove them</p>
                   </div>
@@ -883,6 +1895,38 @@ const Index = () => {
                       <span>Pan</span>
                       <code className="bg-muted px-2 py-1 rounded">Alt+Drag</code>
                     </div>
+                    <div className="flex justify-between">
+                      <span>Select all</span>
+                      <code className="bg-muted px-2 py-1 rounded">Ctrl+A</code>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Group</span>
+                      <code className="bg-muted px-2 py-1 rounded">Ctrl+G</code>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Ungroup</span>
+                      <code className="bg-muted px-2 py-1 rounded">Ctrl+Shift+G</code>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Bring forward / to front</span>
+                      <code className="bg-muted px-2 py-1 rounded">Ctrl+] / Ctrl+Shift+]</code>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Send backward / to back</span>
+                      <code className="bg-muted px-2 py-1 rounded">Ctrl+[ / Ctrl+Shift+[</code>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Lock / unlock</span>
+                      <code className="bg-muted px-2 py-1 rounded">Ctrl+Shift+L</code>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Hide / show</span>
+                      <code className="bg-muted px-2 py-1 rounded">Ctrl+Shift+H</code>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Flip horizontal / vertical</span>
+                      <code className="bg-muted px-2 py-1 rounded">Shift+H / Shift+V</code>
+                    </div>
                     <div className="flex justify-between">
                       <span>Copy</span>
                       <code className="bg-muted px-2 py-1 rounded">Ctrl+C</code>
@@ -897,13 +1941,21 @@ const Index = () => {
                 <div>
                   <h3 className="font-semibold mb-3">Editing</h3>
                   <div className="space-y-2 text-sm">
-                    <p><strong>Double-click</strong> text or sticky note to edit</p>
+                    <p><strong>Double-click</strong> text, a sticky note or a shape (or press Enter) to edit its text; Enter adds a line, Esc or Ctrl+Enter finishes, Ctrl+B/I/U formats</p>
+                    <p><strong>Text formatting:</strong> Font size, alignment, bullets and shrink-to-fit are in the Properties panel</p>
+                    <p><strong>Groups:</strong> Click any member to select the group, double-click to edit a child, Esc to leave</p>
                     <p><strong>Click</strong> object to select it</p>
-                    <p><strong>Drag</strong> selected object to move</p>
-                    <p><strong>Resize:</strong> Drag corner handles on selected object</p>
-                    <p><strong>Color:</strong> Select object and change color picker to update</p>
+                    <p><strong>Shift+Click</strong> or <strong>Ctrl+Click</strong> to add or remove objects from the selection</p>
+                    <p><strong>Drag</strong> selected objects to move them together</p>
+                    <p><strong>Resize:</strong> Drag the corner or edge handles; hold Shift to keep proportions, Alt to resize from the centre</p>
+                    <p><strong>Flip:</strong> Drag a handle past the opposite side, or use Arrange → Flip</p>
+                    <p><strong>Rotate:</strong> Drag the round handle above the selection; hold Shift to snap to 15°</p>
+                    <p><strong>Color:</strong> Select objects and change color picker to update</p>
+                    <p><strong>Properties:</strong> Type exact position, size, rotation, colours and text in the Properties panel; press Enter to apply</p>
+                    <p><strong>Style:</strong> Outline, line width, dashes, opacity, corner radius and no-fill; applies to the selection or to new objects</p>
                     <p><strong>Copy/Paste:</strong> Ctrl+C and Ctrl+V to duplicate objects</p>
                     <p><strong>Hover</strong> selected object to see delete button</p>
+                    <p><strong>Locked</strong> objects cannot be selected on the canvas; use Arrange → Unlock all or the Layers panel</p>
                   </div>
                 </div>
                 <Separator />
@@ -914,221 +1966,279 @@ const Index = () => {
                     <p>Load saved templates to quickly start new projects</p>
                   </div>
                 </div>
+                <Separator />
+                <div>
+                  <h3 className="font-semibold mb-3">Board Files</h3>
+                  <div className="space-y-2 text-sm">
+                    <p>Download the whole board as a .canvas.json file from the Export panel</p>
+                    <p>Open a board file from the Export panel or drop it onto the canvas</p>
+                  </div>
+                </div>
               </div>
             </SheetContent>
           </Sheet>
         </aside>
 
-        <main className="flex-1 relative overflow-hidden">
-          <div
-            ref={canvasRef}
-            className="absolute inset-0 cursor-crosshair"
-            style={{
-              backgroundImage: showGrid ? `
-                linear-gradient(rgba(0, 0, 0, 0.05) 1px, transparent 1px),
-                linear-gradient(90deg, rgba(0, 0, 0, 0.05) 1px, transparent 1px)
-              ` : 'none',
-              backgroundSize: '20px 20px',
-              backgroundColor: '#F8F9FA',
-              cursor: isPanning ? 'grabbing' : tool === 'select' ? 'default' : 'crosshair',
-            }}
-            onMouseDown={handleCanvasMouseDown}
-            onMouseMove={handleCanvasMouseMove}
-            onMouseUp={handleCanvasMouseUp}
-            onMouseLeave={handleCanvasMouseUp}
-          >
-            <div
-              style={{
-                transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom / 100})`,
-                transformOrigin: '0 0',
-              }}
+        <ResizablePanelGroup direction="horizontal" className="flex-1 min-w-0" autoSaveId="canvas-editor-panels">
+          <ResizablePanel id="canvas" order={1} minSize={40}>
+            <main
+              className="h-full relative overflow-hidden"
+              onDragOver={handleFileDragOver}
+              onDragLeave={handleFileDragLeave}
+              onDrop={handleFileDrop}
             >
-              {objects.map((obj) => {
-                if (obj.type === 'line' || obj.type === 'arrow') {
-                  const x1 = obj.x || 0;
-                  const y1 = obj.y || 0;
-                  const x2 = obj.x2 || 0;
-                  const y2 = obj.y2 || 0;
-                  const minX = Math.min(x1, x2) - 20;
-                  const minY = Math.min(y1, y2) - 20;
-                  const width = Math.abs(x2 - x1) + 40;
-                  const height = Math.abs(y2 - y1) + 40;
+              {isFileDragOver && (
+                <div className="absolute inset-2 z-20 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-primary/5 pointer-events-none">
+                  <span className="flex items-center gap-2 text-primary font-medium">
+                    <Icon name="FileUp" size={20} />
+                    Drop a board file to open it
+                  </span>
+                </div>
+              )}
+              {boardStatus === 'loading' && (
+                <div className="absolute inset-0 z-20 flex items-center justify-center bg-white/60">
+                  <Icon name="Loader2" size={32} className="animate-spin text-primary" />
+                </div>
+              )}
+              <div
+                ref={canvasRef}
+                className="absolute inset-0 cursor-crosshair"
+                style={{
+                  backgroundImage: showGrid ? `
+                    linear-gradient(rgba(0, 0, 0, 0.05) 1px, transparent 1px),
+                    linear-gradient(90deg, rgba(0, 0, 0, 0.05) 1px, transparent 1px)
+                  ` : 'none',
+                  backgroundSize: '20px 20px',
+                  backgroundColor: '#F8F9FA',
+                  cursor: isPanning ? 'grabbing' : tool === 'select' ? (hoveredId ? 'move' : 'default') : 'crosshair',
+                }}
+                onMouseDown={handleCanvasMouseDown}
+                onDoubleClick={handleCanvasDoubleClick}
+                onMouseMove={handleCanvasMouseMove}
+                onMouseUp={handleCanvasMouseUp}
+                onMouseLeave={handleCanvasMouseUp}
+              >
+                {renderer === 'canvas' && (
+                  <CanvasRenderer
+                    objects={objects}
+                    pan={pan}
+                    zoom={zoom}
+                    width={viewportSize.width}
+                    height={viewportSize.height}
+                    skipIds={new Set(domObjects.map(obj => obj.id))}
+                    highlights={highlights}
+                    groupBounds={activeGroupBounds}
+                    marquee={marquee && boundsFromPoints(marquee.start, marquee.end)}
+                  />
+                )}
+                <div
+                  style={{
+                    transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom / 100})`,
+                    transformOrigin: '0 0',
+                  }}
+                >
+                  {domObjects.map((obj) => {
+                    if (obj.hidden) return null;
+                    const isSelected = selectedSet.has(obj.id);
+                    const isHovered = obj.id === hoveredId && (tool === 'select' || tool === 'eraser');
+                    const style = resolveStyle(obj);
+                    // Drawn outside the object so that its own outline stays visible; a thinner one marks hover.
+                    const selectionOutline = isSelected
+                      ? { outline: `2px solid ${SELECTION_COLOR}`, outlineOffset: 2 }
+                      : isHovered ? { outline: `1px solid ${hoverColor}`, outlineOffset: 2 } : undefined;
+                    if (obj.type === 'line' || obj.type === 'arrow') {
+                      const bounds = getObjectBounds(obj);
+                      const arrowheads = getArrowheads(obj);
+                      const minX = bounds.minX - 20;
+                      const minY = bounds.minY - 20;
+                      const width = bounds.maxX - bounds.minX + 40;
+                      const height = bounds.maxY - bounds.minY + 40;
                   
-                  return (
-                    <div 
-                      key={obj.id} 
-                      className="absolute cursor-pointer group"
-                      style={{ 
-                        left: minX, 
-                        top: minY, 
-                        width, 
-                        height,
-                        pointerEvents: 'auto'
-                      }}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setSelectedObject(obj.id);
-                      }}
-                    >
-                      <svg
-                        width="100%"
-                        height="100%"
-                        style={{
-                          overflow: 'visible',
-                        }}
-                      >
-                        <defs>
-                          <marker
-                            id={`arrowhead-${obj.id}`}
-                            markerWidth="10"
-                            markerHeight="10"
-                            refX="9"
-                            refY="3"
-                            orient="auto"
-                          >
-                            <polygon points="0 0, 10 3, 0 6" fill={obj.color} />
-                          </marker>
-                        </defs>
-                        <line
-                          x1={x1 - minX}
-                          y1={y1 - minY}
-                          x2={x2 - minX}
-                          y2={y2 - minY}
-                          stroke={obj.color}
-                          strokeWidth={selectedObject === obj.id ? '5' : '3'}
-                          markerEnd={obj.type === 'arrow' ? `url(#arrowhead-${obj.id})` : undefined}
-                        />
-                      </svg>
-                      {selectedObject === obj.id && (
-                        <button
-                          className="absolute top-0 right-0 w-6 h-6 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center z-10"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            deleteSelected();
+                      return (
+                        <div 
+                          key={obj.id} 
+                          className="absolute cursor-pointer group"
+                          style={{ 
+                            left: minX, 
+                            top: minY, 
+                            width, 
+                            height,
+                            opacity: style.opacity,
+                            pointerEvents: 'auto'
                           }}
                         >
-                          ×
-                        </button>
-                      )}
-                    </div>
-                  );
-                }
-
-                if (obj.type === 'pen' && obj.points && obj.points.length > 0) {
-                  const xs = obj.points.map(p => p.x);
-                  const ys = obj.points.map(p => p.y);
-                  const minX = Math.min(...xs) - 10;
-                  const minY = Math.min(...ys) - 10;
-                  const maxX = Math.max(...xs) + 10;
-                  const maxY = Math.max(...ys) + 10;
-                  const width = maxX - minX;
-                  const height = maxY - minY;
+                          <svg
+                            width="100%"
+                            height="100%"
+                            style={{
+                              overflow: 'visible',
+                            }}
+                          >
+                            <defs>
+                              <ArrowheadMarker id={`arrowhead-start-${obj.id}`} style={arrowheads.start} color={style.stroke} />
+                              <ArrowheadMarker id={`arrowhead-end-${obj.id}`} style={arrowheads.end} color={style.stroke} />
+                            </defs>
+                            <path
+                              d={getLinePathData(obj, { x: minX, y: minY })}
+                              fill="none"
+                              stroke={style.stroke}
+                              strokeWidth={style.strokeWidth + (isSelected ? 2 : isHovered ? 1 : 0)}
+                              strokeDasharray={style.dashArray}
+                              markerStart={arrowheads.start !== 'none' ? `url(#arrowhead-start-${obj.id})` : undefined}
+                              markerEnd={arrowheads.end !== 'none' ? `url(#arrowhead-end-${obj.id})` : undefined}
+                            />
+                          </svg>
+                          <LineLabels
+                            obj={obj}
+                            origin={{ x: minX, y: minY }}
+                            editingIndex={editingLabel?.id === obj.id ? editingLabel.index : null}
+                            onChange={(index, text) => setObjects(objects.map(o => o.id === obj.id ? updateLineLabel(o, index, { text }) : o))}
+                            onDone={finishLabelEditing}
+                            onMouseDown={(e, index) => handleLabelMouseDown(e, obj, index)}
+                            onDoubleClick={(e, index) => handleLabelDoubleClick(e, obj, index)}
+                          />
+                          {isSelected && !obj.locked && (
+                            <button
+                              className="absolute top-0 right-0 w-6 h-6 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center z-10"
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                deleteSelected();
+                              }}
+                            >
+                              ×
+                            </button>
+                          )}
+                        </div>
+                      );
+                    }
+
+                    if (obj.type === 'pen' && obj.points && obj.points.length > 0) {
+                      const xs = obj.points.map(p => p.x);
+                      const ys = obj.points.map(p => p.y);
+                      const minX = Math.min(...xs) - 10;
+                      const minY = Math.min(...ys) - 10;
+                      const maxX = Math.max(...xs) + 10;
+                      const maxY = Math.max(...ys) + 10;
+                      const width = maxX - minX;
+                      const height = maxY - minY;
                   
-                  const pathData = obj.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x - minX} ${p.y - minY}`).join(' ');
+                      const pathData = obj.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x - minX} ${p.y - minY}`).join(' ');
                   
-                  return (
-                    <div 
-                      key={obj.id} 
-                      className="absolute cursor-pointer group"
-                      style={{ 
-                        left: minX, 
-                        top: minY, 
-                        width, 
-                        height,
-                        pointerEvents: 'auto'
-                      }}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setSelectedObject(obj.id);
-                      }}
-                    >
-                      <svg
-                        width="100%"
-                        height="100%"
-                        style={{
-                          overflow: 'visible',
-                        }}
-                      >
-                        <path 
-                          d={pathData} 
-                          stroke={obj.color} 
-                          strokeWidth={selectedObject === obj.id ? '5' : '3'} 
-                          fill="none" 
-                          strokeLinecap="round" 
-                          strokeLinejoin="round" 
-                        />
-                      </svg>
-                      {selectedObject === obj.id && (
-                        <button
-                          className="absolute top-0 right-0 w-6 h-6 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center z-10"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            deleteSelected();
+                      return (
+                        <div 
+                          key={obj.id} 
+                          className="absolute cursor-pointer group"
+                          style={{ 
+                            left: minX, 
+                            top: minY, 
+                            width, 
+                            height,
+                            opacity: style.opacity,
+                            pointerEvents: 'auto'
                           }}
                         >
-                          ×
-                        </button>
-                      )}
-                    </div>
-                  );
-                }
-
-                if (obj.type === 'diamond') {
-                  return (
-                    <div
-                      key={obj.id}
-                      className="absolute shadow-lg transition-all cursor-move group"
-                      onMouseDown={(e) => handleObjectMouseDown(e, obj.id)}
-                      onDoubleClick={() => (obj.type === 'text' || obj.type === 'sticky') && setEditingText(obj.id)}
-                      style={{
-                        left: obj.x,
-                        top: obj.y,
-                        width: obj.width,
-                        height: obj.height,
-                        transform: 'rotate(45deg)',
-                        backgroundColor: obj.color,
-                        border: selectedObject === obj.id ? '3px solid #8B5CF6' : '2px solid rgba(255,255,255,0.3)',
-                      }}
-                    >
-                      {selectedObject === obj.id && (
-                        <button
-                          className="absolute -top-3 -right-3 w-6 h-6 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
-                          style={{ transform: 'rotate(-45deg)' }}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            deleteSelected();
+                          <svg
+                            width="100%"
+                            height="100%"
+                            style={{
+                              overflow: 'visible',
+                            }}
+                          >
+                            <path 
+                              d={pathData} 
+                              stroke={style.stroke}
+                              strokeWidth={style.strokeWidth + (isSelected ? 2 : isHovered ? 1 : 0)}
+                              strokeDasharray={style.dashArray}
+                              fill="none" 
+                              strokeLinecap="round" 
+                              strokeLinejoin="round" 
+                            />
+                          </svg>
+                          {isSelected && !obj.locked && (
+                            <button
+                              className="absolute top-0 right-0 w-6 h-6 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center z-10"
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                deleteSelected();
+                              }}
+                            >
+                              ×
+                            </button>
+                          )}
+                        </div>
+                      );
+                    }
+
+                    if (obj.type === 'diamond' || obj.type === 'triangle') {
+                      const width = obj.width || 0;
+                      const height = obj.height || 0;
+                      const points = obj.type === 'diamond'
+                        ? `${width / 2},0 ${width},${height / 2} ${width / 2},${height} 0,${height / 2}`
+                        : `${width / 2},0 ${width},${height} 0,${height}`;
+                      return (
+                        <div
+                          key={obj.id}
+                          className="absolute cursor-move group"
+                          style={{
+                            left: obj.x,
+                            top: obj.y,
+                            width,
+                            height,
+                            transform: rotationTransform(obj),
+                            opacity: style.opacity,
+                            ...selectionOutline,
                           }}
                         >
-                          ×
-                        </button>
-                      )}
-                    </div>
-                  );
-                }
+                          <svg width="100%" height="100%" style={{ overflow: 'visible', transform: mirrorTransform(obj) }}>
+                            <polygon
+                              points={points}
+                              fill={style.fill}
+                              stroke={style.stroke}
+                              strokeWidth={style.strokeWidth}
+                              strokeDasharray={style.dashArray}
+                            />
+                          </svg>
+                          {renderObjectText(obj, 0)}
+                          {isSelected && !obj.locked && (
+                            <button
+                              className="absolute -top-3 -right-3 w-6 h-6 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+                              onMouseDown={(e) => e.stopPropagation()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                deleteSelected();
+                              }}
+                            >
+                              ×
+                            </button>
+                          )}
+                        </div>
+                      );
+                    }
 
-                if (obj.type === 'triangle') {
-                  return (
-                    <svg
-                      key={obj.id}
-                      className="absolute cursor-move group"
-                      onMouseDown={(e) => handleObjectMouseDown(e, obj.id)}
-                      style={{
-                        left: obj.x,
-                        top: obj.y,
-                        width: obj.width,
-                        height: obj.height,
-                      }}
-                    >
-                      <polygon
-                        points={`${(obj.width || 0) / 2},0 ${obj.width},${obj.height} 0,${obj.height}`}
-                        fill={obj.color}
-                        stroke={selectedObject === obj.id ? '#8B5CF6' : 'rgba(255,255,255,0.3)'}
-                        strokeWidth={selectedObject === obj.id ? '3' : '2'}
-                      />
-                      {selectedObject === obj.id && (
-                        <foreignObject x="0" y="-30" width="100" height="30">
+                    return (
+                      <div
+                        key={obj.id}
+                        className="absolute shadow-lg transition-all cursor-move group"
+                        style={{
+                          left: obj.x,
+                          top: obj.y,
+                          width: obj.width,
+                          height: obj.height,
+                          transform: rotationTransform(obj),
+                          backgroundColor: style.fill,
+                          borderRadius: obj.type === 'circle' ? '50%' : style.cornerRadius,
+                          border: style.strokeWidth > 0 ? `${style.strokeWidth}px ${style.strokeStyle} ${style.stroke}` : 'none',
+                          opacity: style.opacity,
+                          ...selectionOutline,
+                        }}
+                      >
+                        {renderObjectText(obj, style.strokeWidth)}
+                        {isSelected && !obj.locked && (
                           <button
-                            className="w-6 h-6 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+                            className="absolute -top-3 -right-3 w-6 h-6 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center z-10"
+                            onMouseDown={(e) => e.stopPropagation()}
                             onClick={(e) => {
                               e.stopPropagation();
                               deleteSelected();
@@ -1136,102 +2246,106 @@ const Index = () => {
                           >
                             ×
                           </button>
-                        </foreignObject>
-                      )}
-                    </svg>
-                  );
-                }
-
-                return (
-                  <div
-                    key={obj.id}
-                    className="absolute shadow-lg transition-all cursor-move group"
-                    onMouseDown={(e) => handleObjectMouseDown(e, obj.id)}
-                    onDoubleClick={() => (obj.type === 'text' || obj.type === 'sticky') && setEditingText(obj.id)}
-                    style={{
-                      left: obj.x,
-                      top: obj.y,
-                      width: obj.width,
-                      height: obj.height,
-                      backgroundColor: obj.type === 'text' ? 'transparent' : obj.color,
-                      borderRadius: obj.type === 'circle' ? '50%' : obj.type === 'sticky' ? '2px' : '4px',
-                      border: selectedObject === obj.id 
-                        ? '3px solid #8B5CF6' 
-                        : obj.type === 'text' ? 'none' : '2px solid rgba(255,255,255,0.3)',
-                      display: 'flex',
-                      alignItems: 'center',
-                      justifyContent: 'center',
-                      color: obj.type === 'text' ? '#1F2937' : '#ffffff',
-                      padding: '8px',
-                      fontSize: '14px',
-                      fontWeight: obj.type === 'sticky' ? '500' : '400',
-                    }}
-                  >
-                    {editingText === obj.id ? (
-                      <input
-                        autoFocus
-                        className="w-full h-full bg-transparent text-center outline-none"
-                        value={obj.text || ''}
-                        onChange={(e) => {
-                          setObjects(objects.map(o => 
-                            o.id === obj.id ? { ...o, text: e.target.value } : o
-                          ));
-                        }}
-                        onBlur={() => {
-                          setEditingText(null);
-                          addToHistory(objects);
-                        }}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            setEditingText(null);
-                            addToHistory(objects);
-                          }
-                        }}
-                      />
-                    ) : (
-                      obj.text && obj.text
-                    )}
-                    {selectedObject === obj.id && (
-                      <>
-                        <button
-                          className="absolute -top-3 -right-3 w-6 h-6 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center z-10"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            deleteSelected();
-                          }}
-                        >
-                          ×
-                        </button>
-                        {obj.type !== 'circle' && (
-                          <>
-                            <div className="absolute -top-1 -left-1 w-3 h-3 bg-primary rounded-full cursor-nw-resize" onMouseDown={(e) => handleObjectMouseDown(e, obj.id, 'nw')} />
-                            <div className="absolute -top-1 -right-1 w-3 h-3 bg-primary rounded-full cursor-ne-resize" onMouseDown={(e) => handleObjectMouseDown(e, obj.id, 'ne')} />
-                            <div className="absolute -bottom-1 -left-1 w-3 h-3 bg-primary rounded-full cursor-sw-resize" onMouseDown={(e) => handleObjectMouseDown(e, obj.id, 'sw')} />
-                            <div className="absolute -bottom-1 -right-1 w-3 h-3 bg-primary rounded-full cursor-se-resize" onMouseDown={(e) => handleObjectMouseDown(e, obj.id, 'se')} />
-                          </>
                         )}
-                      </>
-                    )}
-                  </div>
-                );
-              })}
-            </div>
-          </div>
+                      </div>
+                    );
+                  })}
+                  {activeGroupBounds && renderer === 'dom' && (
+                    <div
+                      className="absolute border border-dashed border-gray-400 pointer-events-none"
+                      style={{
+                        left: activeGroupBounds.minX - 12,
+                        top: activeGroupBounds.minY - 12,
+                        width: activeGroupBounds.maxX - activeGroupBounds.minX + 24,
+                        height: activeGroupBounds.maxY - activeGroupBounds.minY + 24,
+                      }}
+                    />
+                  )}
+                  {transformFrame && tool === 'select' && !editingText && !singleLine && (
+                    <TransformHandles
+                      frame={transformFrame}
+                      outlined={!singleBox}
+                      onResizeStart={handleResizeMouseDown}
+                      onRotateStart={handleRotateMouseDown}
+                    />
+                  )}
+                  {singleLine && tool === 'select' && (
+                    <LineHandles
+                      obj={singleLine}
+                      onPointDragStart={handleLinePointMouseDown}
+                      onInsertStart={handleWaypointInsert}
+                      onRemove={removeLineWaypoint}
+                    />
+                  )}
+                  {drawingLine && (
+                    <svg className="absolute left-0 top-0 overflow-visible pointer-events-none" width={1} height={1}>
+                      <line
+                        x1={drawingLine.start.x}
+                        y1={drawingLine.start.y}
+                        x2={drawingLine.end.x}
+                        y2={drawingLine.end.y}
+                        stroke={currentColor}
+                        strokeWidth={2}
+                        strokeDasharray="6 4"
+                      />
+                    </svg>
+                  )}
+                  {bindingShape && bindingHint && <ConnectorAnchors shape={bindingShape} active={bindingHint.anchor} />}
+                  {marquee && renderer === 'dom' && (
+                    <div
+                      className="absolute border border-primary bg-primary/10 pointer-events-none"
+                      style={{
+                        left: Math.min(marquee.start.x, marquee.end.x),
+                        top: Math.min(marquee.start.y, marquee.end.y),
+                        width: Math.abs(marquee.end.x - marquee.start.x),
+                        height: Math.abs(marquee.end.y - marquee.start.y),
+                      }}
+                    />
+                  )}
+                </div>
+              </div>
 
-          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-white rounded-lg shadow-lg border border-gray-200 px-4 py-2 flex items-center gap-3">
-            <Button variant="ghost" size="icon" onClick={() => handleZoom(-10)}>
-              <Icon name="Minus" size={16} />
-            </Button>
-            <span className="text-sm font-medium min-w-[60px] text-center">{zoom}%</span>
-            <Button variant="ghost" size="icon" onClick={() => handleZoom(10)}>
-              <Icon name="Plus" size={16} />
-            </Button>
-            <Separator orientation="vertical" className="h-6" />
-            <Button variant="ghost" size="icon" onClick={() => { setZoom(100); setPan({ x: 0, y: 0 }); }}>
-              <Icon name="Maximize2" size={16} />
-            </Button>
-          </div>
-        </main>
+              <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-white rounded-lg shadow-lg border border-gray-200 px-4 py-2 flex items-center gap-3">
+                <Button variant="ghost" size="icon" onClick={() => handleZoom(-10)}>
+                  <Icon name="Minus" size={16} />
+                </Button>
+                <span className="text-sm font-medium min-w-[60px] text-center">{zoom}%</span>
+                <Button variant="ghost" size="icon" onClick={() => handleZoom(10)}>
+                  <Icon name="Plus" size={16} />
+                </Button>
+                <Separator orientation="vertical" className="h-6" />
+                <Button variant="ghost" size="icon" onClick={() => { setZoom(100); setPan({ x: 0, y: 0 }); }}>
+                  <Icon name="Maximize2" size={16} />
+                </Button>
+              </div>
+            </main>
+          </ResizablePanel>
+          {showInspector && (
+            <>
+              <ResizableHandle withHandle />
+              <ResizablePanel id="inspector" order={2} defaultSize={22} minSize={15} maxSize={40}>
+                <InspectorPanel
+                  objects={editableSelected}
+                  skippedCount={selectedObjects.length - editableSelected.length}
+                  onUpdate={updateSelected}
+                  onClose={() => setShowInspector(false)}
+                />
+              </ResizablePanel>
+            </>
+          )}
+        </ResizablePanelGroup>
+
+        {showLayers && (
+          <LayersPanel
+            objects={objects}
+            selectedIds={selectedSet}
+            onSelect={selectLayer}
+            onToggleFlag={toggleObjectFlag}
+            onMove={moveLayer}
+            onZOrder={applyZOrderCommand}
+            onClose={() => setShowLayers(false)}
+          />
+        )}
       </div>
     </div>
   );
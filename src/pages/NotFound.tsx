@@ -1,23 +1,31 @@
 import { useLocation } from "react-router-dom";
-import { useEffect } from "react";
+import { useEffect, type ReactNode } from "react";
 
-const NotFound = () => {
+interface NotFoundProps {
+  code?: string;
+  message?: string;
+  children?: ReactNode;
+}
+
+const NotFound = ({
+  code = "404",
+  message = "Oops! Page not found",
+  children,
+}: NotFoundProps) => {
   const location = useLocation();
 
   useEffect(() => {
-    console.error(
-      "404 Error: User attempted to access non-existent route:",
-      location.pathname
-    );
-  }, [location.pathname]);
+    console.error(`${code} Error: ${message}:`, location.pathname);
+  }, [code, message, location.pathname]);
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-100">
       <div className="text-center">
-        <h1 className="text-4xl font-bold mb-4">404</h1>
-        <p className="text-xl text-gray-600 mb-4">Упс! Страница не найдена</p>
+        <h1 className="text-4xl font-bold mb-4">{code}</h1>
+        <p className="text-xl text-gray-600 mb-4">{message}</p>
+        {children}
         <a href="/" className="text-blue-500 hover:text-blue-700 underline">
-          Вернуться на главную
+          Return to Home
         </a>
       </div>
     </div>
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Where boards are stored: `remote` (canvas-api, default), `local` (IndexedDB) or `memory`. */
+  readonly VITE_BOARD_STORAGE?: string;
+  /** Overrides the canvas-api function URL. */
+  readonly VITE_CANVAS_API_URL?: string;
+}